@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOperatorConfigured, isOperatorRequest } from '@/lib/auth';
+import { getDefaultChatSettings } from '@/lib/chatSettings';
+import { isFileUploadEnabled } from '@/lib/files';
+import { getAllowedModels, getDefaultModel } from '@/lib/models';
+import { isSharingEnabled } from '@/lib/shares';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  return NextResponse.json({
+    models: getAllowedModels(),
+    defaultModel: getDefaultModel(),
+    chatDefaults: getDefaultChatSettings(),
+    fileUpload: isFileUploadEnabled(),
+    sharing: isSharingEnabled(),
+    operatorSignIn: isOperatorConfigured(),
+    isOperator: isOperatorRequest(req),
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationOwner, getConversationStore, isValidConversationId } from '@/lib/conversations';
+import { conversationMessagesSchema } from '@/lib/conversations/schema';
+import { toErrorResponse } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { conversationId } = params;
+
+    if (!isValidConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = conversationMessagesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid conversation messages' },
+        { status: 400 }
+      );
+    }
+
+    const owner = getConversationOwner(req);
+    const conversation = owner && await getConversationStore(owner).append(conversationId, parsed.data.messages);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error: any) {
+    console.error('Error appending to conversation:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationOwner, getConversationStore, isValidConversationId } from '@/lib/conversations';
+import { conversationUpdateSchema } from '@/lib/conversations/schema';
+import { toErrorResponse } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { conversationId } = params;
+
+    if (!isValidConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    // Conversations of other browsers are reported as not found
+    const owner = getConversationOwner(req);
+    const conversation = owner && await getConversationStore(owner).get(conversationId);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error: any) {
+    console.error('Error fetching conversation:', error);
+    return toErrorResponse(error);
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { conversationId } = params;
+
+    if (!isValidConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = conversationUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid conversation update' },
+        { status: 400 }
+      );
+    }
+
+    const owner = getConversationOwner(req);
+    const conversation = owner && await getConversationStore(owner).update(conversationId, parsed.data);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error: any) {
+    console.error('Error updating conversation:', error);
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const { conversationId } = params;
+
+    if (!isValidConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    const owner = getConversationOwner(req);
+    const deleted = !!owner && await getConversationStore(owner).delete(conversationId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error('Error deleting conversation:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createConversationOwner,
+  getConversationOwner,
+  getConversationStore,
+  setConversationOwnerCookie,
+} from '@/lib/conversations';
+import { conversationMessagesSchema } from '@/lib/conversations/schema';
+import { toErrorResponse } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+// Lists the conversations created from this browser
+export async function GET(req: NextRequest) {
+  try {
+    const owner = getConversationOwner(req);
+    if (!owner) {
+      return NextResponse.json({ conversations: [] });
+    }
+
+    const query = req.nextUrl.searchParams.get('q') ?? undefined;
+    const conversations = await getConversationStore(owner).list(query);
+    return NextResponse.json({ conversations });
+  } catch (error: any) {
+    console.error('Error listing conversations:', error);
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = conversationMessagesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid conversation messages' },
+        { status: 400 }
+      );
+    }
+
+    // A browser's first conversation also issues its owner cookie
+    let owner = getConversationOwner(req);
+    let newOwnerId: string | null = null;
+    if (!owner) {
+      ({ owner, ownerId: newOwnerId } = createConversationOwner());
+    }
+
+    const conversation = await getConversationStore(owner).create(parsed.data.messages);
+    const res = NextResponse.json({ conversation }, { status: 201 });
+    if (newOwnerId) setConversationOwnerCookie(res, newOwnerId);
+    return res;
+  } catch (error: any) {
+    console.error('Error creating conversation:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -1,10 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AppError, toErrorResponse } from '@/lib/errors';
+import { formatContentDisposition, getContentType, transformFile } from '@/lib/files';
 import { getAssistant } from '@/lib/pinecone';
+import { withRetry } from '@/lib/retry';
 
 export const runtime = 'nodejs';
 
+// Single or multiple byte ranges, e.g. "bytes=0-1023"
+const RANGE_PATTERN = /^bytes=\d*-\d*(,\s*\d*-\d*)*$/;
+
+function pickHeaders(headers: Headers, names: string[]) {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value) picked[name] = value;
+  }
+  return picked;
+}
+
+// Proxies a file download through a freshly signed URL. Supports Range
+// requests and `?disposition=inline` for previewing in the browser.
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: { fileId: string } }
 ) {
   try {
@@ -29,10 +46,9 @@ export async function GET(
     const assistant = getAssistant(assistantName);
     
     // Get fresh signed URL and file details
-    const fileDetails = await assistant.describeFile(fileId, true);
-    const details = fileDetails as any;
-    const signedUrl = details.signedUrl || details.signed_url;
-    const fileName = details.name || 'download';
+    const file = transformFile(await withRetry(() => assistant.describeFile(fileId, true), { signal: req.signal }));
+    const signedUrl = file.signed_url;
+    const fileName = file.name || 'download';
     
     if (!signedUrl) {
       return NextResponse.json(
@@ -41,36 +57,55 @@ export async function GET(
       );
     }
 
-    // Immediately fetch the file from the signed URL (server-side, no CORS issues)
-    const fileResponse = await fetch(signedUrl);
-    
-    if (!fileResponse.ok) {
-      return NextResponse.json(
-        { error: 'Failed to download file from storage' },
-        { status: fileResponse.status }
+    // Forward byte ranges so PDF viewers can load large files incrementally
+    const range = req.headers.get('range');
+    const fileResponse = await fetch(signedUrl, {
+      headers: range && RANGE_PATTERN.test(range) ? { Range: range } : undefined,
+      signal: req.signal,
+    });
+
+    if (fileResponse.status === 416) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: pickHeaders(fileResponse.headers, ['content-range']),
+      });
+    }
+
+    // Storage errors (an expired URL, an outage) aren't the client's to fix
+    if (!fileResponse.ok || !fileResponse.body) {
+      return toErrorResponse(
+        new AppError('upstream_unavailable', 'Failed to download file from storage', 502)
       );
     }
 
-    // Get the file content
-    const fileBuffer = await fileResponse.arrayBuffer();
-    
-    // Get content type and set proper download headers
-    const contentType = fileResponse.headers.get('content-type') || 'application/octet-stream';
-    
-    // Return the file with download headers
-    return new NextResponse(fileBuffer, {
+    const disposition = req.nextUrl.searchParams.get('disposition') === 'inline'
+      ? 'inline'
+      : 'attachment';
+
+    // fetch decodes compressed bodies, after which the upstream Content-Length
+    // (of the encoded bytes) no longer matches what is streamed
+    const encoding = fileResponse.headers.get('content-encoding');
+    const decoded = !!encoding && encoding !== 'identity';
+
+    // Stream the body through instead of buffering it; a 206 from storage
+    // passes through with its Content-Range
+    return new NextResponse(fileResponse.body, {
+      status: fileResponse.status,
       headers: {
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        ...pickHeaders(fileResponse.headers, decoded
+          ? ['content-range', 'last-modified']
+          : ['content-length', 'content-range', 'last-modified']),
+        'Content-Type': getContentType(fileName, fileResponse.headers.get('content-type')),
+        'Content-Disposition': formatContentDisposition(disposition, fileName),
+        'Accept-Ranges': 'bytes',
         'Cache-Control': 'no-cache',
+        // Inline files are rendered by the browser, so don't let it guess other types
+        'X-Content-Type-Options': 'nosniff',
       },
     });
   } catch (error: any) {
     console.error('Error downloading file:', error);
-    return NextResponse.json(
-      { error: error?.message || 'Internal server error' },
-      { status: 500 }
-    );
+    return toErrorResponse(error);
   }
 }
 
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOperatorRequest } from '@/lib/auth';
+import { toErrorResponse } from '@/lib/errors';
+import { invalidateFileList } from '@/lib/fileList';
+import { isFailedFile, transformFile } from '@/lib/files';
+import { uploadAssistantFile } from '@/lib/fileUpload';
+import { getAssistant } from '@/lib/pinecone';
+import { withRetry } from '@/lib/retry';
+
+export const runtime = 'nodejs';
+
+// Retries a file that failed processing: its original content is uploaded
+// again with the same metadata, then the failed entry is deleted
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    if (!isOperatorRequest(req)) {
+      return NextResponse.json(
+        { error: 'Retrying files requires operator access' },
+        { status: 403 }
+      );
+    }
+
+    const { fileId } = params;
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+
+    if (!assistantName) {
+      return NextResponse.json(
+        { error: 'PINECONE_ASSISTANT_NAME environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    if (!fileId) {
+      return NextResponse.json(
+        { error: 'File ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const assistant = getAssistant(assistantName);
+    const failed = transformFile(await withRetry(() => assistant.describeFile(fileId, true), { signal: req.signal }));
+
+    if (!isFailedFile(failed)) {
+      return NextResponse.json(
+        { error: 'Only files that failed processing can be retried' },
+        { status: 409 }
+      );
+    }
+
+    const original = failed.signed_url ? await fetch(failed.signed_url, { signal: req.signal }) : null;
+
+    if (!original?.ok) {
+      return NextResponse.json(
+        { error: 'The original content of this file is no longer available. Upload it again instead.' },
+        { status: 409 }
+      );
+    }
+
+    // Keeping the document id means chats scoped to the file still match it
+    const uploaded = await uploadAssistantFile(assistantName, {
+      name: failed.name,
+      data: new Uint8Array(await original.arrayBuffer()),
+      metadata: failed.metadata,
+    });
+
+    // The new upload is already processing, so a failed cleanup is reported
+    // rather than treated as an error
+    let deleted = true;
+    try {
+      await assistant.deleteFile(fileId);
+    } catch (deleteError) {
+      console.error('Error deleting failed file after retry:', deleteError);
+      deleted = false;
+    }
+    invalidateFileList();
+
+    return NextResponse.json({ file: uploaded, deleted }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error retrying file:', error);
+    return toErrorResponse(error, { not_found: 'File not found' });
+  }
+}
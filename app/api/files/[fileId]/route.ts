@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOperatorRequest } from '@/lib/auth';
+import { toErrorResponse } from '@/lib/errors';
+import { invalidateFileList } from '@/lib/fileList';
+import { transformFile } from '@/lib/files';
+import { getAssistant } from '@/lib/pinecone';
+import { withRetry } from '@/lib/retry';
+
+export const runtime = 'nodejs';
+
+// Describes one file, including a freshly signed download URL. The list
+// endpoint leaves signed URLs out, so clients resolve them here when needed.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const { fileId } = params;
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+
+    if (!assistantName) {
+      return NextResponse.json(
+        { error: 'PINECONE_ASSISTANT_NAME environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    if (!fileId) {
+      return NextResponse.json(
+        { error: 'File ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const assistant = getAssistant(assistantName);
+    const details = await withRetry(() => assistant.describeFile(fileId, true), { signal: req.signal });
+
+    return NextResponse.json(
+      { file: transformFile(details) },
+      // Signed URLs expire, so never cache them
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error: any) {
+    console.error('Error fetching file:', error);
+    return toErrorResponse(error, { not_found: 'File not found' });
+  }
+}
+
+// Starts deleting a file. The assistant keeps listing it as Deleting until
+// the deletion completes.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    if (!isOperatorRequest(req)) {
+      return NextResponse.json(
+        { error: 'Deleting files requires operator access' },
+        { status: 403 }
+      );
+    }
+
+    const { fileId } = params;
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+
+    if (!assistantName) {
+      return NextResponse.json(
+        { error: 'PINECONE_ASSISTANT_NAME environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    if (!fileId) {
+      return NextResponse.json(
+        { error: 'File ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const assistant = getAssistant(assistantName);
+    await assistant.deleteFile(fileId);
+    invalidateFileList();
+
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error('Error deleting file:', error);
+    return toErrorResponse(error, { not_found: 'File not found' });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { getFileList } from '@/lib/fileList';
+import { collectMetadataFields } from '@/lib/metadataFilter';
+
+export const runtime = 'nodejs';
+// Takes no request, so it would otherwise be rendered once at build time
+export const dynamic = 'force-dynamic';
+
+// Lists the metadata keys across all files with their distinct values, for
+// building chat filters. Reuses the cached file list, so it's cheap to poll.
+export async function GET() {
+  try {
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+
+    if (!assistantName) {
+      return NextResponse.json(
+        { error: 'PINECONE_ASSISTANT_NAME environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    const list = await getFileList(assistantName);
+
+    return NextResponse.json(
+      { fields: collectMetadataFields(list.files) },
+      { headers: { 'Cache-Control': 'private, no-cache' } }
+    );
+  } catch (error: any) {
+    console.error('Error fetching file metadata:', error);
+    return toErrorResponse(error);
+  }
+}
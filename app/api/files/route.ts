@@ -1,36 +1,38 @@
-import { NextResponse } from 'next/server';
-import { getAssistant } from '@/lib/pinecone';
-import type { AssistantFile } from '@/lib/types';
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { isOperatorRequest } from '@/lib/auth';
+import { toErrorResponse } from '@/lib/errors';
+import { countFilesByStatus, filterFiles, parseFileFilters } from '@/lib/fileFilters';
+import { getFileList } from '@/lib/fileList';
+import {
+  hasUploadExtension,
+  isFileUploadEnabled,
+  MAX_UPLOAD_BYTES,
+  UPLOAD_FILE_EXTENSIONS,
+} from '@/lib/files';
+import { uploadAssistantFile } from '@/lib/fileUpload';
 
 export const runtime = 'nodejs';
 
-// Transform SDK camelCase response to snake_case format expected by frontend
-function transformFile(file: any): AssistantFile {
-  // SDK returns camelCase (updatedOn, createdOn, percentDone, etc.) where dates are Date objects
-  // Transform to snake_case (updated_on, created_on, percent_done, etc.) where dates are ISO strings
-  
-  // Helper to convert Date object or string to ISO string
-  const toDateString = (date: Date | string | undefined): string => {
-    if (!date) return '';
-    if (date instanceof Date) return date.toISOString();
-    if (typeof date === 'string') return date;
-    return '';
-  };
-  
-  return {
-    status: file.status || file.Status,
-    id: file.id || file.Id,
-    name: file.name || file.Name,
-    metadata: file.metadata || file.Metadata || null,
-    updated_on: toDateString(file.updatedOn || file.updated_on || file.UpdatedOn),
-    created_on: toDateString(file.createdOn || file.created_on || file.CreatedOn),
-    percent_done: file.percentDone || file.percent_done || file.PercentDone || 0,
-    signed_url: file.signedUrl || file.signed_url || file.SignedUrl || null,
-    error_message: file.errorMessage || file.error_message || file.ErrorMessage || null,
-  };
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Cursors are opaque to clients; they encode the offset of the next page
+function encodeCursor(offset: number) {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+function decodeCursor(cursor: string | null): number | null {
+  if (!cursor) return 0;
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  return Number.isInteger(offset) && offset >= 0 ? offset : null;
 }
 
-export async function GET() {
+// Lists file metadata one page at a time (`?cursor=&limit=`), searched, sorted
+// and filtered by status with the Files panel's parameters (see lib/fileFilters)
+// so clients can load pages on demand. `total` and `status_counts` cover every
+// file. Responses carry an ETag so unchanged pages revalidate with a 304.
+export async function GET(req: NextRequest) {
   try {
     const assistantName = process.env.PINECONE_ASSISTANT_NAME;
     
@@ -41,49 +43,135 @@ export async function GET() {
       );
     }
 
-    const assistant = getAssistant(assistantName);
-    const result = await assistant.listFiles();
-    
-    // SDK returns { files: [...] } with camelCase properties
-    let files: any[] = [];
-    if (result && typeof result === 'object' && 'files' in result) {
-      files = (result.files as any[]) || [];
-    } else if (Array.isArray(result)) {
-      files = result;
+    const searchParams = req.nextUrl.searchParams;
+    const offset = decodeCursor(searchParams.get('cursor'));
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+
+    if (offset === null || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid cursor or limit (1-${MAX_PAGE_SIZE})` },
+        { status: 400 }
+      );
     }
-    
-    // Transform files and fetch signed_url for each
-    const filesWithDetails = await Promise.all(
-      files.map(async (file: any) => {
-        const fileId = file.id || file.Id;
-        if (!fileId) {
-          return transformFile(file);
-        }
-        
-        // Fetch individual file details to get signed_url
-        try {
-          const fileDetails = await assistant.describeFile(fileId, true);
-          const details = fileDetails as any;
-          
-          return transformFile({
-            ...file,
-            ...details,
-            signedUrl: details.signedUrl ?? details.signed_url ?? null,
-          });
-        } catch (error) {
-          console.error(`Error fetching details for file ${fileId}:`, error);
-          return transformFile(file);
-        }
-      })
+
+    // Clients send no-cache right after changing files; see lib/fileListClient
+    const fresh = req.headers.get('cache-control')?.includes('no-cache') ?? false;
+    const list = await getFileList(assistantName, { fresh });
+    const filters = parseFileFilters(searchParams);
+    const etag = `"${createHash('sha1')
+      .update(`${list.etag}-${offset}-${limit}-${JSON.stringify(filters)}`)
+      .digest('base64url')}"`;
+    const headers = {
+      ETag: etag,
+      'Cache-Control': 'private, no-cache',
+    };
+
+    if (req.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const matching = filterFiles(list.files, filters);
+    const files = matching.slice(offset, offset + limit);
+    const nextOffset = offset + files.length;
+
+    return NextResponse.json(
+      {
+        files,
+        next_cursor: nextOffset < matching.length ? encodeCursor(nextOffset) : null,
+        total: list.files.length,
+        status_counts: countFilesByStatus(list.files),
+      },
+      { headers }
     );
-    
-    return NextResponse.json({ files: filesWithDetails });
   } catch (error: any) {
     console.error('Error fetching files:', error);
-    return NextResponse.json(
-      { error: error?.message || 'Internal server error' },
-      { status: 500 }
-    );
+    return toErrorResponse(error);
+  }
+}
+
+// Metadata is sent as a JSON object in the `metadata` form field
+function parseMetadata(value: FormDataEntryValue | null): Record<string, string> | null | undefined {
+  if (value === null || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  try {
+    const metadata = JSON.parse(value);
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+    return metadata;
+  } catch {
+    return null;
   }
 }
 
+// Uploads a file from multipart form data (`file`, optional `metadata`).
+// Operators only, when uploads are enabled.
+export async function POST(req: NextRequest) {
+  try {
+    if (!isFileUploadEnabled()) {
+      return NextResponse.json(
+        { error: 'File upload is disabled for this deployment' },
+        { status: 403 }
+      );
+    }
+
+    if (!isOperatorRequest(req)) {
+      return NextResponse.json(
+        { error: 'Uploading files requires operator access' },
+        { status: 403 }
+      );
+    }
+
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+    
+    if (!assistantName) {
+      return NextResponse.json(
+        { error: 'PINECONE_ASSISTANT_NAME environment variable is not set' },
+        { status: 500 }
+      );
+    }
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!hasUploadExtension(file.name)) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported types: ${UPLOAD_FILE_EXTENSIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      );
+    }
+
+    const metadata = parseMetadata(formData!.get('metadata'));
+
+    if (metadata === null) {
+      return NextResponse.json(
+        { error: 'Metadata must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const uploaded = await uploadAssistantFile(assistantName, {
+      name: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+      metadata,
+    });
+
+    return NextResponse.json({ file: uploaded }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error uploading file:', error);
+    return toErrorResponse(error);
+  }
+}
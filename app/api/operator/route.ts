@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearOperatorCookie,
+  isOperatorConfigured,
+  setOperatorCookie,
+  verifyOperatorToken,
+} from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// Signs the browser in as an operator when the OPERATOR_TOKEN matches
+export async function POST(req: NextRequest) {
+  if (!isOperatorConfigured()) {
+    return NextResponse.json(
+      { error: 'Operator access is not configured for this deployment' },
+      { status: 403 }
+    );
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  if (!verifyOperatorToken(body?.token)) {
+    return NextResponse.json(
+      { error: 'Invalid operator token' },
+      { status: 401 }
+    );
+  }
+
+  const res = NextResponse.json({ isOperator: true });
+  setOperatorCookie(res);
+  return res;
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ isOperator: false });
+  clearOperatorCookie(res);
+  return res;
+}
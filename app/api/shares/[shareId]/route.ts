@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import {
+  getShareStatus,
+  getShareStore,
+  isValidShareId,
+  toPublicShare,
+  verifyRevokeToken,
+} from '@/lib/shares';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const { shareId } = params;
+
+    if (!isValidShareId(shareId)) {
+      return NextResponse.json(
+        { error: 'Invalid share ID' },
+        { status: 400 }
+      );
+    }
+
+    const share = await getShareStore().get(shareId);
+
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Shared conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    switch (getShareStatus(share)) {
+      case 'revoked':
+        return NextResponse.json(
+          { error: 'This link has been revoked' },
+          { status: 410 }
+        );
+      case 'expired':
+        return NextResponse.json(
+          { error: 'This link has expired' },
+          { status: 410 }
+        );
+    }
+
+    return NextResponse.json(
+      { share: toPublicShare(share) },
+      // Revocation must take effect immediately, so never cache
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error: any) {
+    console.error('Error fetching share:', error);
+    return toErrorResponse(error);
+  }
+}
+
+// Revokes a share. Requires the revoke token returned when it was created,
+// sent in the X-Revoke-Token header.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const { shareId } = params;
+
+    if (!isValidShareId(shareId)) {
+      return NextResponse.json(
+        { error: 'Invalid share ID' },
+        { status: 400 }
+      );
+    }
+
+    const store = getShareStore();
+    const share = await store.get(shareId);
+
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Shared conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!verifyRevokeToken(share, req.headers.get('x-revoke-token'))) {
+      return NextResponse.json(
+        { error: 'Invalid revoke token' },
+        { status: 403 }
+      );
+    }
+
+    await store.revoke(shareId);
+    return NextResponse.json({ revoked: true });
+  } catch (error: any) {
+    console.error('Error revoking share:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getThread } from '@/lib/chatTree';
+import { getConversationOwner, getConversationStore, isValidConversationId } from '@/lib/conversations';
+import { toErrorResponse } from '@/lib/errors';
+import { getShareStore, isSharingEnabled, toPublicShare } from '@/lib/shares';
+import { shareCreateSchema, shareMessagesSchema } from '@/lib/shares/schema';
+
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!isSharingEnabled()) {
+      return NextResponse.json(
+        { error: 'Sharing is disabled for this deployment' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = shareCreateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid share request' },
+        { status: 400 }
+      );
+    }
+
+    const { conversation_id, leaf_id, title, expires_in_days } = parsed.data;
+
+    if (!isValidConversationId(conversation_id)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    // Only the browser that owns a conversation can share it
+    const owner = getConversationOwner(req);
+    const conversation = owner && await getConversationStore(owner).get(conversation_id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const thread = getThread(conversation.messages, leaf_id ?? conversation.current_leaf_id);
+    if (thread.length === 0) {
+      return NextResponse.json(
+        { error: 'Message not found in conversation' },
+        { status: 404 }
+      );
+    }
+
+    const messages = shareMessagesSchema.safeParse(thread);
+    if (!messages.success) {
+      return NextResponse.json(
+        { error: 'Conversation is too long to share' },
+        { status: 413 }
+      );
+    }
+
+    const { share, revokeToken } = await getShareStore().create({
+      title: title || conversation.title,
+      messages: messages.data,
+      expires_on: expires_in_days
+        ? new Date(Date.now() + expires_in_days * DAY_MS).toISOString()
+        : null,
+    });
+
+    // The revoke token is only returned here; the store keeps a hash of it
+    return NextResponse.json(
+      { share: toPublicShare(share), revoke_token: revokeToken },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error creating share:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultChatSettings, toChatOptions } from '@/lib/chatSettings';
+import { EVENT_STREAM_HEADERS, streamChat, toEventStream } from '@/lib/chatStream';
+import { AppError, toAppError } from '@/lib/errors';
+import { getDefaultModel, getModelError } from '@/lib/models';
+import {
+  openAIChatRequestSchema,
+  toAssistantMessages,
+  toCompletion,
+  toCompletionChunks,
+  toOpenAIError,
+  toOpenAIErrorResponse,
+} from '@/lib/openai';
+
+export const runtime = 'nodejs';
+
+// OpenAI-compatible chat completions, answered by the Pinecone assistant.
+// Point an OpenAI client's base URL at /api/v1 to use it.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const parsed = openAIChatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return toOpenAIErrorResponse(
+        new AppError('bad_request', `Invalid request: ${issue.path.join('.') || 'body'}: ${issue.message}`)
+      );
+    }
+    const request = parsed.data;
+
+    if (request.model) {
+      const modelError = getModelError(request.model);
+      if (modelError) {
+        return toOpenAIErrorResponse(new AppError('model_unavailable', modelError));
+      }
+    }
+
+    const assistantName = process.env.PINECONE_ASSISTANT_NAME;
+    if (!assistantName) {
+      return toOpenAIErrorResponse(new AppError('internal', 'Missing PINECONE_ASSISTANT_NAME'));
+    }
+
+    const model = request.model ?? getDefaultModel();
+    const chatOptions = toChatOptions({
+      ...getDefaultChatSettings(),
+      ...(typeof request.temperature === 'number' && { temperature: request.temperature }),
+      ...(request.response_format && { json_response: request.response_format.type === 'json_object' }),
+    });
+
+    const events = streamChat(assistantName, {
+      messages: toAssistantMessages(request.messages),
+      model,
+      ...chatOptions,
+    }, req.signal);
+
+    if (request.stream) {
+      const stream = toEventStream(toCompletionChunks(events, model), {
+        onError: (error) => toOpenAIError(toAppError(error)),
+        done: '[DONE]',
+      });
+      return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+    }
+
+    try {
+      return NextResponse.json(await toCompletion(events, model));
+    } catch (error) {
+      console.error('Chat completion error:', error);
+      return toOpenAIErrorResponse(error);
+    }
+  } catch (error: any) {
+    console.error('API error:', error);
+    return toOpenAIErrorResponse(error);
+  }
+}
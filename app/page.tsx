@@ -8,23 +8,29 @@ import Button from '@mui/material/Button';
 import Link from '@mui/material/Link';
 import useMediaQuery from '@mui/material/useMediaQuery';
 import { useQuery } from '@tanstack/react-query';
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import KeyboardDoubleArrowLeftOutlinedIcon from '@mui/icons-material/KeyboardDoubleArrowLeftOutlined';
 import AssistantChat from '@/components/AssistantChat/AssistantChat';
 import AssistantDrawer from '@/components/AssistantDrawer/AssistantDrawer';
+import ConversationsPanel from '@/components/ConversationsPanel/ConversationsPanel';
 import type { DrawerControls } from '@/components/AssistantDrawer/DrawerPanel';
 import type { AssistantFile } from '@/lib/types';
 import Logo from '@/components/Logo';
 import ThemeDropdown from '@/components/ThemeDropdown/ThemeDropdown';
+import { ChatContextProvider } from '@/lib/ChatContext';
+import { DocumentViewerContextProvider } from '@/lib/DocumentViewerContext';
+import { getFileListRequestInit } from '@/lib/fileListClient';
 import {
+  CONVERSATIONS_PANEL_WIDTH,
   DRAWER_WIDE_WIDTH,
   DRAWER_NARROW_WIDTH,
   WIDE_PAGE_WIDTH,
   MOBILE_BREAKPOINT,
 } from '@/lib/constants';
 
+// Only used to tell whether the assistant has any files, so one is enough
 async function fetchFiles(): Promise<{ files: AssistantFile[] }> {
-  const response = await fetch('/api/files');
+  const response = await fetch('/api/files?limit=1', getFileListRequestInit());
   if (!response.ok) {
     throw new Error('Failed to fetch files');
   }
@@ -97,8 +103,18 @@ const styles = {
     width: '100%',
     flexDirection: { xs: 'column' as const, md: 'row' as const },
   },
+  conversationsPanel: {
+    display: { xs: 'none', md: 'block' },
+    width: CONVERSATIONS_PANEL_WIDTH,
+    flexShrink: 0,
+    height: '100%',
+    borderRight: 1,
+    borderColor: 'divider',
+  },
   chatContainer: (drawerOpen: boolean, drawerWidth: number, isMobile: boolean, hideFiles: boolean) => ({
-    width: isMobile ? '100%' : (drawerOpen ? `calc(100% - ${drawerWidth}px)` : '100%'),
+    width: isMobile
+      ? '100%'
+      : `calc(100% - ${CONVERSATIONS_PANEL_WIDTH + (drawerOpen ? drawerWidth : 0)}px)`,
     height: isMobile ? (hideFiles ? '100%' : '80vh') : '100%',
     minWidth: 0,
     minHeight: isMobile ? '400px' : 'auto',
@@ -158,7 +174,7 @@ export default function Home() {
   const { data: filesData } = useQuery({
     queryKey: ['files'],
     queryFn: fetchFiles,
-    staleTime: 0, // Always consider data stale to ensure fresh signed URLs on page refresh
+    staleTime: 0, // Always consider data stale so uploads and deletions show on page refresh
     refetchOnMount: true, // Always refetch when component mounts (e.g., on page refresh)
   });
 
@@ -175,6 +191,9 @@ export default function Home() {
   // If hiding files, never show drawer
   const effectiveShowDrawer = hideFiles ? false : (isMobile ? true : showDrawer);
 
+  // Opening a citation shows it in the drawer, so make sure the drawer is open
+  const openDrawer = useCallback(() => setShowDrawer(true), []);
+
   const drawerControls: DrawerControls = {
     show: effectiveShowDrawer,
     onOpen: () => !hideFiles && setShowDrawer(true),
@@ -248,30 +267,37 @@ export default function Home() {
           </Box>
         )}
       </Box>
-      <Box sx={styles.main}>
-        <Box sx={styles.chatContainer(hideFiles ? false : showDrawer, drawerWidth, isMobile, hideFiles)}>
-          {!hideFiles && !showDrawer && !isMobile && (
-            <Tooltip title="Expand files panel">
-              <IconButton
-                onClick={() => setShowDrawer(true)}
-                sx={styles.expandButton}
-                size="small"
-              >
-                <KeyboardDoubleArrowLeftOutlinedIcon fontSize="small" />
-              </IconButton>
-            </Tooltip>
-          )}
-          <AssistantChat hasFiles={hasFiles} />
-        </Box>
-        {!hideFiles && (
-          <Box sx={styles.drawerWrapper(showDrawer, drawerWidth, isMobile)}>
-            <AssistantDrawer
-              assistantName={assistantName}
-              controls={drawerControls}
-            />
+      <ChatContextProvider>
+        <DocumentViewerContextProvider onOpen={openDrawer} disabled={hideFiles}>
+          <Box sx={styles.main}>
+            <Box sx={styles.conversationsPanel}>
+              <ConversationsPanel />
+            </Box>
+            <Box sx={styles.chatContainer(hideFiles ? false : showDrawer, drawerWidth, isMobile, hideFiles)}>
+              {!hideFiles && !showDrawer && !isMobile && (
+                <Tooltip title="Expand files panel">
+                  <IconButton
+                    onClick={() => setShowDrawer(true)}
+                    sx={styles.expandButton}
+                    size="small"
+                  >
+                    <KeyboardDoubleArrowLeftOutlinedIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <AssistantChat hasFiles={hasFiles} />
+            </Box>
+            {!hideFiles && (
+              <Box sx={styles.drawerWrapper(showDrawer, drawerWidth, isMobile)}>
+                <AssistantDrawer
+                  assistantName={assistantName}
+                  controls={drawerControls}
+                />
+              </Box>
+            )}
           </Box>
-        )}
-      </Box>
+        </DocumentViewerContextProvider>
+      </ChatContextProvider>
     </Box>
   );
 }
@@ -0,0 +1,142 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Link from '@mui/material/Link';
+import Typography from '@mui/material/Typography';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import ChatMessageBlock from '@/components/ChatMessageBlock/ChatMessageBlock';
+import Logo from '@/components/Logo';
+import ThemeDropdown from '@/components/ThemeDropdown/ThemeDropdown';
+import { fetchShare, getRevokeToken, revokeShare, ShareRequestError } from '@/lib/shares/client';
+
+const styles = {
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    minHeight: '100vh',
+    backgroundColor: 'background.paper',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 2,
+    borderBottom: 1,
+    borderColor: 'divider',
+    minHeight: 70,
+    px: 3,
+  },
+  logo: {
+    display: 'flex',
+    alignItems: 'center',
+    '& svg': {
+      height: { xs: '17px', md: '21px' },
+      width: 'auto',
+    },
+  },
+  main: {
+    flex: 1,
+    width: '100%',
+    maxWidth: 900,
+    mx: 'auto',
+    boxSizing: 'border-box' as const,
+    px: 2,
+    py: 3,
+  },
+  messages: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: 2,
+    mt: 3,
+  },
+  notice: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    alignItems: 'center',
+    gap: 1,
+    py: 10,
+    textAlign: 'center' as const,
+  },
+};
+
+export default function SharedConversationPage({ params }: { params: { shareId: string } }) {
+  const { shareId } = params;
+  const queryClient = useQueryClient();
+  const [canRevoke, setCanRevoke] = useState(false);
+
+  const { data: share, error, isLoading } = useQuery({
+    queryKey: ['share', shareId],
+    queryFn: () => fetchShare(shareId),
+    // Missing, expired and revoked links won't succeed on retry
+    retry: (failureCount, error) => !(error instanceof ShareRequestError) && failureCount < 1,
+  });
+
+  // Only the browser that created the link holds its revoke token
+  useEffect(() => {
+    setCanRevoke(getRevokeToken(shareId) !== null);
+  }, [shareId]);
+
+  const handleRevoke = async () => {
+    try {
+      await revokeShare(shareId);
+      setCanRevoke(false);
+      queryClient.invalidateQueries({ queryKey: ['share', shareId] });
+    } catch (revokeError) {
+      console.error('Error revoking share:', revokeError);
+    }
+  };
+
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.header}>
+        <Link href="/" sx={styles.logo}>
+          <Logo />
+        </Link>
+        <Typography variant="body2" color="text.secondary">
+          Shared conversation
+        </Typography>
+        <Box sx={{ ml: 'auto' }}>
+          <ThemeDropdown />
+        </Box>
+      </Box>
+      <Box component="main" sx={styles.main}>
+        {isLoading ? (
+          <Box sx={styles.notice}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error || !share ? (
+          <Box sx={styles.notice}>
+            <Typography variant="h6" component="h1">
+              {error instanceof Error ? error.message : 'Shared conversation not found'}
+            </Typography>
+            <Link href="/">Start a new conversation</Link>
+          </Box>
+        ) : (
+          <>
+            <Typography variant="h5" component="h1">
+              {share.title || 'Conversation'}
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 0.5 }}>
+              <Typography variant="body2" color="text.secondary">
+                Shared {new Date(share.created_on).toLocaleString()}
+                {share.expires_on && ` · Expires ${new Date(share.expires_on).toLocaleString()}`}
+              </Typography>
+              {canRevoke && (
+                <Button size="small" color="error" onClick={handleRevoke}>
+                  Revoke link
+                </Button>
+              )}
+            </Box>
+            <Box sx={styles.messages}>
+              {share.messages.map((message) => (
+                <ChatMessageBlock key={message.id} message={message} />
+              ))}
+            </Box>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+}
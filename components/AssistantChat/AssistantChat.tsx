@@ -1,9 +1,11 @@
 'use client';
 
 import Card from '@mui/material/Card';
-import { useChat } from '@/hooks/useChat';
+import { useChatContext } from '@/lib/ChatContext';
+import ChatHeader from './ChatHeader';
 import ChatHistory from './ChatHistory/ChatHistory';
 import ChatInput from './ChatInput';
+import ScopeChips from './ScopeChips';
 
 type AssistantChatProps = {
   hasFiles: boolean;
@@ -23,15 +25,48 @@ const styles = {
 };
 
 function AssistantChat({ hasFiles }: AssistantChatProps) {
-  const { chat, sendMessage, clearChat } = useChat();
+  const {
+    chat,
+    sendMessage,
+    regenerate,
+    retryLastMessage,
+    editMessage,
+    switchBranch,
+    stopGeneration,
+    clearChat,
+    scope,
+    setScope,
+    models,
+    model,
+    setModel,
+    chatSettings,
+    chatDefaults,
+    setChatSettings,
+  } = useChatContext();
 
   return (
     <Card sx={styles.root}>
-      <ChatHistory chat={chat} hasFiles={hasFiles} />
+      <ChatHeader />
+      <ChatHistory
+        chat={chat}
+        hasFiles={hasFiles}
+        onRegenerate={regenerate}
+        onEditMessage={editMessage}
+        onSwitchBranch={switchBranch}
+        onRetry={retryLastMessage}
+      />
+      <ScopeChips scope={scope} onChange={setScope} disabled={chat.loading} />
       <ChatInput
         loading={chat.loading}
         onSendMessage={sendMessage}
+        onStopGeneration={stopGeneration}
         onClearChat={clearChat}
+        models={models}
+        model={model}
+        onModelChange={setModel}
+        chatSettings={chatSettings}
+        chatDefaults={chatDefaults}
+        onChatSettingsChange={setChatSettings}
         disableClearAction={!chat.messages.length || chat.loading}
       />
     </Card>
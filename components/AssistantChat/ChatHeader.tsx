@@ -0,0 +1,47 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import Snackbar from '@mui/material/Snackbar';
+import { useState } from 'react';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import { useChatContext } from '@/lib/ChatContext';
+import ExportMenu from './ExportMenu';
+import FilterBuilder from './FilterBuilder';
+import ShareButton from './ShareButton';
+
+const styles = {
+  root: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 0.5,
+    pl: 2,
+    pr: 7, // Leave room for the files panel expand button
+    pt: 1,
+    color: 'text.secondary',
+  },
+};
+
+export default function ChatHeader() {
+  const { chat, conversationId, importConversation, scope, setScope } = useChatContext();
+  const { data: config } = useAppConfig();
+  const [notice, setNotice] = useState<string | null>(null);
+
+  return (
+    <Box sx={styles.root}>
+      <FilterBuilder
+        filter={scope.filter}
+        onChange={(filter) => setScope({ ...scope, filter })}
+        disabled={chat.loading}
+      />
+      {config?.sharing && <ShareButton chat={chat} conversationId={conversationId} onNotice={setNotice} />}
+      <ExportMenu chat={chat} onImport={importConversation} onError={setNotice} />
+      <Snackbar
+        open={!!notice}
+        message={notice}
+        autoHideDuration={4000}
+        onClose={() => setNotice(null)}
+      />
+    </Box>
+  );
+}
@@ -5,13 +5,18 @@ import Typography from '@mui/material/Typography';
 import { useTheme } from '@mui/material/styles';
 import { useMemo } from 'react';
 import Logo from '@/components/Logo';
-import type { AssistantChatSession } from '@/lib/types';
+import { getSiblings, getThread } from '@/lib/chatTree';
+import type { AssistantChatMessage, AssistantChatSession } from '@/lib/types';
 import ScrollBox from './ScrollBox';
 import ChatMessageBlock from '@/components/ChatMessageBlock/ChatMessageBlock';
 
 type ChatHistoryProps = {
   chat?: AssistantChatSession;
   hasFiles: boolean;
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onRetry?: () => void;
 };
 
 const styles = {
@@ -26,12 +31,35 @@ const styles = {
   },
 };
 
-function ChatHistory({ chat, hasFiles }: ChatHistoryProps) {
+function ChatHistory({
+  chat,
+  hasFiles,
+  onRegenerate,
+  onEditMessage,
+  onSwitchBranch,
+  onRetry,
+}: ChatHistoryProps) {
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === 'dark';
   const loading = chat?.loading || false;
   const error = chat?.error;
-  const messages = useMemo(() => chat?.messages ?? [], [chat?.messages]);
+  const allMessages = useMemo(() => chat?.messages ?? [], [chat?.messages]);
+  // Only the branch ending at the current leaf is shown
+  const messages = useMemo(
+    () => getThread(allMessages, chat?.currentLeafId ?? null),
+    [allMessages, chat?.currentLeafId]
+  );
+
+  const getBranch = (message: AssistantChatMessage) => {
+    const siblings = getSiblings(allMessages, message);
+    const index = siblings.findIndex((sibling) => sibling.id === message.id);
+    return {
+      index,
+      count: siblings.length,
+      onPrevious: () => onSwitchBranch?.(siblings[index - 1].id),
+      onNext: () => onSwitchBranch?.(siblings[index + 1].id),
+    };
+  };
 
   if (messages.length === 0) {
     const logoColor = isDarkMode ? 'white' : 'black';
@@ -56,15 +84,32 @@ function ChatHistory({ chat, hasFiles }: ChatHistoryProps) {
   return (
     <Box sx={styles.root}>
       <ScrollBox loading={loading}>
-        {messages.map((chatMessage, index) => (
-          <ChatMessageBlock
-            key={index}
-            message={chatMessage}
-          />
-        ))}
+        {messages.map((chatMessage, index) => {
+          const isLastMessage = index === messages.length - 1;
+          return (
+            <ChatMessageBlock
+              key={chatMessage.id}
+              message={chatMessage}
+              branch={onSwitchBranch ? getBranch(chatMessage) : undefined}
+              actionsDisabled={loading}
+              onRegenerate={
+                onRegenerate && chatMessage.role === 'assistant' && isLastMessage
+                  ? () => onRegenerate(chatMessage.id)
+                  : undefined
+              }
+              onEdit={
+                onEditMessage && chatMessage.role === 'user'
+                  ? (content) => onEditMessage(chatMessage.id, content)
+                  : undefined
+              }
+            />
+          );
+        })}
         {error && (
           <ChatMessageBlock
-            message={{ role: 'error', content: error.toString() }}
+            message={{ role: 'error', content: error.toString(), errorCode: chat?.errorCode ?? undefined }}
+            actionsDisabled={loading}
+            onRetry={chat?.errorRetryable ? onRetry : undefined}
           />
         )}
       </ScrollBox>
@@ -1,20 +1,32 @@
 'use client';
 
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import StopCircleOutlinedIcon from '@mui/icons-material/StopCircleOutlined';
 import Box from '@mui/material/Box';
 import Button from '@mui/material/Button';
 import IconButton from '@mui/material/IconButton';
 import Input from '@mui/material/Input';
+import Tooltip from '@mui/material/Tooltip';
 import { useTheme } from '@mui/material/styles';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import type { ChatSettings } from '@/lib/chatSettings';
+import ChatSettingsPopover from './ChatSettingsPopover';
+import ModelSelect from './ModelSelect';
 
 interface ChatInputProps {
   loading?: boolean;
   disableClearAction: boolean;
   placeholder?: string;
+  models?: string[];
+  model?: string | null;
+  onModelChange?: (model: string) => void;
+  chatSettings?: ChatSettings;
+  chatDefaults?: ChatSettings;
+  onChatSettingsChange?: (settings: ChatSettings) => void;
   onSendMessage: (message: string) => void;
+  onStopGeneration?: () => void;
   onClearChat: () => void;
 }
 
@@ -61,10 +73,17 @@ const messageSchema = z.object({
 
 function ChatInput({
   onSendMessage,
+  onStopGeneration,
   onClearChat,
   disableClearAction,
   loading = false,
   placeholder = 'Ask a question...',
+  models = [],
+  model = null,
+  onModelChange = () => {},
+  chatSettings = {},
+  chatDefaults = {},
+  onChatSettingsChange = () => {},
 }: ChatInputProps) {
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === 'dark';
@@ -112,16 +131,41 @@ function ChatInput({
                 }}
                 {...register('message')}
               />
-              <IconButton
-                id="send-button"
-                type="submit"
-                sx={styles.sendButton}
-                color="inherit"
-                disabled={!isValid || loading}
-              >
-                <ArrowForwardIcon />
-              </IconButton>
+              {loading && onStopGeneration ? (
+                <Tooltip title="Stop generating" placement="top">
+                  <IconButton
+                    id="stop-button"
+                    onClick={onStopGeneration}
+                    color="inherit"
+                    aria-label="Stop generating"
+                  >
+                    <StopCircleOutlinedIcon />
+                  </IconButton>
+                </Tooltip>
+              ) : (
+                <IconButton
+                  id="send-button"
+                  type="submit"
+                  sx={styles.sendButton}
+                  color="inherit"
+                  disabled={!isValid || loading}
+                >
+                  <ArrowForwardIcon />
+                </IconButton>
+              )}
             </Box>
+            <ModelSelect
+              models={models}
+              model={model}
+              disabled={loading}
+              onChange={onModelChange}
+            />
+            <ChatSettingsPopover
+              settings={chatSettings}
+              defaults={chatDefaults}
+              disabled={loading}
+              onChange={onChatSettingsChange}
+            />
             <Button
               sx={styles.clearButton}
               disabled={disableClearAction}
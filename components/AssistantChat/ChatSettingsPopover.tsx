@@ -0,0 +1,198 @@
+'use client';
+
+import TuneIcon from '@mui/icons-material/Tune';
+import Badge from '@mui/material/Badge';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import IconButton from '@mui/material/IconButton';
+import Popover from '@mui/material/Popover';
+import Switch from '@mui/material/Switch';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import { CHAT_SETTING_LIMITS, chatSettingsSchema, type ChatSettings } from '@/lib/chatSettings';
+
+interface ChatSettingsPopoverProps {
+  settings: ChatSettings;
+  defaults: ChatSettings;
+  disabled?: boolean;
+  onChange: (settings: ChatSettings) => void;
+}
+
+type NumberSetting = keyof typeof CHAT_SETTING_LIMITS;
+type BooleanSetting = 'include_highlights' | 'json_response';
+
+// Number fields are edited as text, so they can be left empty for the default
+type Draft = Record<NumberSetting, string> & Record<BooleanSetting, boolean>;
+
+const NUMBER_FIELDS: { key: NumberSetting; label: string; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.1 },
+  { key: 'top_k', label: 'Context snippets', step: 1 },
+  { key: 'snippet_size', label: 'Snippet size (tokens)', step: 256 },
+];
+
+const BOOLEAN_FIELDS: { key: BooleanSetting; label: string; description: string }[] = [
+  { key: 'include_highlights', label: 'Highlights', description: 'Quote the supporting passage with each citation' },
+  { key: 'json_response', label: 'JSON response', description: 'Ask for answers as a JSON object (not streamed)' },
+];
+
+const styles = {
+  popover: {
+    width: 320,
+    maxWidth: 'calc(100vw - 32px)',
+    p: 2,
+  },
+  fields: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: 2,
+    pt: 1,
+  },
+  switchDescription: {
+    display: 'block',
+    color: 'text.secondary',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    mt: 2,
+  },
+};
+
+function toDraft(settings: ChatSettings, defaults: ChatSettings): Draft {
+  const text = (value: number | undefined) => (value === undefined ? '' : String(value));
+  return {
+    temperature: text(settings.temperature),
+    top_k: text(settings.top_k),
+    snippet_size: text(settings.snippet_size),
+    include_highlights: settings.include_highlights ?? defaults.include_highlights ?? false,
+    json_response: settings.json_response ?? defaults.json_response ?? false,
+  };
+}
+
+// Keeps only what differs from the defaults, so changing an operator default
+// still applies to anyone who never touched that setting
+function fromDraft(draft: Draft, defaults: ChatSettings): { settings?: ChatSettings; errors: Partial<Record<NumberSetting, string>> } {
+  const candidate: Record<string, number | boolean> = {};
+  for (const { key } of NUMBER_FIELDS) {
+    const text = draft[key].trim();
+    if (text) candidate[key] = Number(text);
+  }
+  for (const { key } of BOOLEAN_FIELDS) {
+    if (draft[key] !== (defaults[key] ?? false)) candidate[key] = draft[key];
+  }
+
+  const parsed = chatSettingsSchema.safeParse(candidate);
+  if (parsed.success) {
+    return { settings: parsed.data, errors: {} };
+  }
+
+  const errors: Partial<Record<NumberSetting, string>> = {};
+  for (const issue of parsed.error.issues) {
+    const key = issue.path[0] as NumberSetting;
+    const { min, max } = CHAT_SETTING_LIMITS[key];
+    errors[key] = key === 'temperature' ? `Between ${min} and ${max}` : `A whole number from ${min} to ${max}`;
+  }
+  return { errors };
+}
+
+export default function ChatSettingsPopover({ settings, defaults, disabled = false, onChange }: ChatSettingsPopoverProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(settings, defaults));
+  const [errors, setErrors] = useState<Partial<Record<NumberSetting, string>>>({});
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    setDraft(toDraft(settings, defaults));
+    setErrors({});
+    setAnchorEl(event.currentTarget);
+  };
+
+  const handleApply = () => {
+    const result = fromDraft(draft, defaults);
+    setErrors(result.errors);
+    if (result.settings) {
+      onChange(result.settings);
+      setAnchorEl(null);
+    }
+  };
+
+  const handleReset = () => {
+    onChange({});
+    setAnchorEl(null);
+  };
+
+  return (
+    <>
+      <Tooltip title="Advanced settings" placement="top">
+        <span>
+          <IconButton size="small" onClick={handleOpen} disabled={disabled} aria-label="Advanced settings">
+            <Badge variant="dot" color="primary" invisible={Object.keys(settings).length === 0}>
+              <TuneIcon fontSize="small" />
+            </Badge>
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        slotProps={{ paper: { sx: styles.popover } }}
+      >
+        <Typography variant="subtitle2" gutterBottom>
+          Advanced settings
+        </Typography>
+        <Box sx={styles.fields}>
+          {NUMBER_FIELDS.map(({ key, label, step }) => (
+            <TextField
+              key={key}
+              label={label}
+              type="number"
+              size="small"
+              value={draft[key]}
+              onChange={(event) => setDraft((current) => ({ ...current, [key]: event.target.value }))}
+              placeholder={defaults[key] !== undefined ? `Default: ${defaults[key]}` : 'Assistant default'}
+              error={!!errors[key]}
+              helperText={errors[key] ?? `${CHAT_SETTING_LIMITS[key].min}–${CHAT_SETTING_LIMITS[key].max}`}
+              InputLabelProps={{ shrink: true }}
+              inputProps={{ min: CHAT_SETTING_LIMITS[key].min, max: CHAT_SETTING_LIMITS[key].max, step }}
+            />
+          ))}
+          {BOOLEAN_FIELDS.map(({ key, label, description }) => (
+            <FormControlLabel
+              key={key}
+              control={
+                <Switch
+                  size="small"
+                  checked={draft[key]}
+                  onChange={(event) => setDraft((current) => ({ ...current, [key]: event.target.checked }))}
+                />
+              }
+              label={
+                <>
+                  <Typography variant="body2">{label}</Typography>
+                  <Typography variant="caption" sx={styles.switchDescription}>
+                    {description}
+                  </Typography>
+                </>
+              }
+            />
+          ))}
+        </Box>
+        <Box sx={styles.actions}>
+          <Box sx={{ flex: 1 }} />
+          <Button size="small" onClick={handleReset} disabled={Object.keys(settings).length === 0}>
+            Reset
+          </Button>
+          <Button size="small" variant="contained" onClick={handleApply}>
+            Apply
+          </Button>
+        </Box>
+      </Popover>
+    </>
+  );
+}
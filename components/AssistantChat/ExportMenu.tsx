@@ -0,0 +1,112 @@
+'use client';
+
+import DataObjectOutlinedIcon from '@mui/icons-material/DataObjectOutlined';
+import DescriptionOutlinedIcon from '@mui/icons-material/DescriptionOutlined';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import FileUploadOutlinedIcon from '@mui/icons-material/FileUploadOutlined';
+import HtmlOutlinedIcon from '@mui/icons-material/HtmlOutlined';
+import Divider from '@mui/material/Divider';
+import IconButton from '@mui/material/IconButton';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import Tooltip from '@mui/material/Tooltip';
+import { useRef, useState } from 'react';
+import {
+  exportConversationHtml,
+  exportConversationJson,
+  exportConversationMarkdown,
+  getExportFileName,
+  getExportTitle,
+  parseConversationExport,
+  saveFile,
+  type ConversationExport,
+} from '@/lib/exportConversation';
+import type { AssistantChatSession } from '@/lib/types';
+
+interface ExportMenuProps {
+  chat: AssistantChatSession;
+  onImport: (data: ConversationExport) => Promise<void>;
+  onError: (message: string) => void;
+}
+
+export default function ExportMenu({ chat, onImport, onError }: ExportMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canExport = chat.messages.length > 0 && !chat.loading;
+
+  const handleExport = async (format: 'md' | 'html' | 'json') => {
+    setAnchorEl(null);
+    const fileName = getExportFileName(getExportTitle(chat), format);
+    try {
+      switch (format) {
+        case 'md':
+          saveFile(fileName, exportConversationMarkdown(chat), 'text/markdown');
+          break;
+        case 'html':
+          saveFile(fileName, await exportConversationHtml(chat), 'text/html');
+          break;
+        case 'json':
+          saveFile(fileName, exportConversationJson(chat), 'application/json');
+          break;
+      }
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      onError('Failed to export conversation');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      await onImport(parseConversationExport(await file.text()));
+    } catch (error) {
+      console.error('Error importing conversation:', error);
+      onError(error instanceof Error ? error.message : 'Failed to import conversation');
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Export">
+        <IconButton size="small" onClick={(event) => setAnchorEl(event.currentTarget)} aria-label="Export conversation">
+          <FileDownloadOutlinedIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('md')} disabled={!canExport}>
+          <DescriptionOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          Markdown
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('html')} disabled={!canExport}>
+          <HtmlOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          HTML
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('json')} disabled={!canExport}>
+          <DataObjectOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          JSON
+        </MenuItem>
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            fileInputRef.current?.click();
+          }}
+          disabled={chat.loading}
+        >
+          <FileUploadOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          Import JSON…
+        </MenuItem>
+      </Menu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleImport}
+      />
+    </>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import AddIcon from '@mui/icons-material/Add';
+import CloseIcon from '@mui/icons-material/Close';
+import FilterAltOutlinedIcon from '@mui/icons-material/FilterAltOutlined';
+import Autocomplete from '@mui/material/Autocomplete';
+import Badge from '@mui/material/Badge';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
+import Popover from '@mui/material/Popover';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import { useMetadataFields } from '@/hooks/useMetadataFields';
+import {
+  buildMetadataFilter,
+  coerceMetadataValue,
+  type MetadataCondition,
+  type MetadataField,
+  type MetadataFieldType,
+  type MetadataFilter,
+  type MetadataValue,
+  parseMetadataFilter,
+} from '@/lib/metadataFilter';
+
+interface FilterBuilderProps {
+  filter: MetadataFilter | null;
+  onChange: (filter: MetadataFilter | null) => void;
+  disabled?: boolean;
+}
+
+const OPERATOR_LABELS: Record<MetadataCondition['operator'], string> = {
+  eq: 'is',
+  in: 'is any of',
+  range: 'between',
+};
+
+const styles = {
+  popover: {
+    width: 520,
+    maxWidth: 'calc(100vw - 32px)',
+    p: 2,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: 1,
+    mb: 1.5,
+  },
+  key: {
+    width: 140,
+    flexShrink: 0,
+  },
+  operator: {
+    width: 110,
+    flexShrink: 0,
+  },
+  value: {
+    flex: 1,
+    minWidth: 0,
+    display: 'flex',
+    gap: 1,
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    mt: 1,
+  },
+  status: {
+    display: 'flex',
+    justifyContent: 'center',
+    py: 2,
+  },
+};
+
+function emptyCondition(key = ''): MetadataCondition {
+  return { key, operator: 'eq', value: '' };
+}
+
+// Switching operators keeps whatever values still make sense
+function changeOperator(condition: MetadataCondition, operator: MetadataCondition['operator']): MetadataCondition {
+  const values = condition.operator === 'eq'
+    ? (condition.value === '' ? [] : [condition.value])
+    : condition.operator === 'in' ? condition.values : [];
+
+  switch (operator) {
+    case 'eq':
+      return { key: condition.key, operator, value: values[0] ?? '' };
+    case 'in':
+      return { key: condition.key, operator, values };
+    case 'range':
+      return { key: condition.key, operator, min: null, max: null };
+  }
+}
+
+function parseBound(text: string) {
+  if (!text.trim()) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+interface ConditionRowProps {
+  condition: MetadataCondition;
+  fields: MetadataField[];
+  onChange: (condition: MetadataCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, fields, onChange, onRemove }: ConditionRowProps) {
+  const field = fields.find((candidate) => candidate.key === condition.key);
+  // Keys from a saved filter may no longer be on any file; treat them as text
+  const type: MetadataFieldType = field?.type ?? 'string';
+  const options = (field?.values ?? []).map(String);
+  const coerce = (raw: string | null) => (raw === null ? null : coerceMetadataValue(type, raw));
+
+  return (
+    <Box sx={styles.row}>
+      <TextField
+        select
+        size="small"
+        label="Field"
+        value={condition.key}
+        onChange={(event) => onChange(emptyCondition(event.target.value))}
+        sx={styles.key}
+      >
+        {fields.map((option) => (
+          <MenuItem key={option.key} value={option.key}>
+            {option.key}
+          </MenuItem>
+        ))}
+        {condition.key && !field && (
+          <MenuItem value={condition.key}>{condition.key}</MenuItem>
+        )}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Condition"
+        value={condition.operator}
+        onChange={(event) => onChange(changeOperator(condition, event.target.value as MetadataCondition['operator']))}
+        sx={styles.operator}
+      >
+        <MenuItem value="eq">{OPERATOR_LABELS.eq}</MenuItem>
+        <MenuItem value="in">{OPERATOR_LABELS.in}</MenuItem>
+        {(type === 'number' || condition.operator === 'range') && (
+          <MenuItem value="range">{OPERATOR_LABELS.range}</MenuItem>
+        )}
+      </TextField>
+      <Box sx={styles.value}>
+        {condition.operator === 'eq' && (
+          <Autocomplete
+            freeSolo
+            autoSelect
+            fullWidth
+            size="small"
+            options={options}
+            value={condition.value === '' ? null : String(condition.value)}
+            onChange={(_event, raw) => onChange({ ...condition, value: coerce(raw) ?? '' })}
+            renderInput={(params) => <TextField {...params} label="Value" />}
+          />
+        )}
+        {condition.operator === 'in' && (
+          <Autocomplete
+            multiple
+            freeSolo
+            autoSelect
+            fullWidth
+            size="small"
+            options={options}
+            value={condition.values.map(String)}
+            onChange={(_event, raw) => onChange({
+              ...condition,
+              values: raw.map(coerce).filter((value): value is MetadataValue => value !== null),
+            })}
+            renderInput={(params) => <TextField {...params} label="Values" />}
+          />
+        )}
+        {condition.operator === 'range' && (
+          <>
+            <TextField
+              size="small"
+              type="number"
+              label="Min"
+              value={condition.min ?? ''}
+              onChange={(event) => onChange({ ...condition, min: parseBound(event.target.value) })}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Max"
+              value={condition.max ?? ''}
+              onChange={(event) => onChange({ ...condition, max: parseBound(event.target.value) })}
+            />
+          </>
+        )}
+      </Box>
+      <IconButton size="small" onClick={onRemove} aria-label="Remove condition" sx={{ mt: 0.5 }}>
+        <CloseIcon fontSize="small" />
+      </IconButton>
+    </Box>
+  );
+}
+
+// Builds a metadata filter for the chat from the keys and values found on the
+// assistant's files. Every condition must match.
+export default function FilterBuilder({ filter, onChange, disabled = false }: FilterBuilderProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [conditions, setConditions] = useState<MetadataCondition[]>([]);
+  const [unsupported, setUnsupported] = useState(false);
+  const { data: fields = [], isLoading, error } = useMetadataFields(!!anchorEl);
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    const parsed = filter ? parseMetadataFilter(filter) : [];
+    setUnsupported(parsed === null);
+    setConditions(parsed?.length ? parsed : [emptyCondition()]);
+    setAnchorEl(event.currentTarget);
+  };
+
+  const updateCondition = (index: number, condition: MetadataCondition) => {
+    setConditions((current) => current.map((existing, i) => (i === index ? condition : existing)));
+  };
+
+  const removeCondition = (index: number) => {
+    setConditions((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleApply = () => {
+    onChange(buildMetadataFilter(conditions));
+    setAnchorEl(null);
+  };
+
+  const handleClear = () => {
+    onChange(null);
+    setAnchorEl(null);
+  };
+
+  return (
+    <>
+      <Tooltip title="Filter by metadata">
+        <span>
+          <IconButton size="small" onClick={handleOpen} disabled={disabled} aria-label="Filter by metadata">
+            <Badge variant="dot" color="primary" invisible={!filter}>
+              <FilterAltOutlinedIcon fontSize="small" />
+            </Badge>
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: styles.popover } }}
+      >
+        <Typography variant="subtitle2" gutterBottom>
+          Only search files where
+        </Typography>
+        {isLoading ? (
+          <Box sx={styles.status}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Typography color="error" variant="body2" sx={{ mb: 1 }}>
+            {error instanceof Error ? error.message : 'Failed to fetch file metadata'}
+          </Typography>
+        ) : fields.length === 0 && conditions.every((condition) => !condition.key) ? (
+          <Typography color="text.secondary" variant="body2" sx={{ mb: 1 }}>
+            None of the files have metadata to filter on.
+          </Typography>
+        ) : (
+          <>
+            {unsupported && (
+              <Typography color="text.secondary" variant="body2" sx={{ mb: 1.5 }}>
+                The current filter can&apos;t be edited here. Applying replaces it.
+              </Typography>
+            )}
+            <Box sx={{ pt: 1 }}>
+              {conditions.map((condition, index) => (
+                <ConditionRow
+                  key={index}
+                  condition={condition}
+                  fields={fields}
+                  onChange={(next) => updateCondition(index, next)}
+                  onRemove={() => removeCondition(index)}
+                />
+              ))}
+            </Box>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setConditions((current) => [...current, emptyCondition()])}
+            >
+              Add condition
+            </Button>
+          </>
+        )}
+        <Box sx={styles.actions}>
+          <Box sx={{ flex: 1 }} />
+          <Button size="small" onClick={handleClear} disabled={!filter}>
+            Clear
+          </Button>
+          <Button size="small" variant="contained" onClick={handleApply} disabled={isLoading || !!error}>
+            Apply
+          </Button>
+        </Box>
+      </Popover>
+    </>
+  );
+}
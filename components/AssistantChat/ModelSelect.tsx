@@ -0,0 +1,51 @@
+'use client';
+
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import Tooltip from '@mui/material/Tooltip';
+
+interface ModelSelectProps {
+  models: string[];
+  model: string | null;
+  disabled?: boolean;
+  onChange: (model: string) => void;
+}
+
+const styles = {
+  select: {
+    minWidth: 140,
+    fontSize: '0.875rem',
+    color: 'text.secondary',
+    '.MuiSelect-select': {
+      py: 1,
+    },
+  },
+};
+
+export default function ModelSelect({ models, model, disabled = false, onChange }: ModelSelectProps) {
+  // Nothing to pick from when the operator limits the deployment to a single model
+  if (models.length <= 1 || !model) {
+    return null;
+  }
+
+  return (
+    <Tooltip title="Model" placement="top">
+      <Select
+        value={model}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={disabled}
+        variant="standard"
+        disableUnderline
+        size="small"
+        sx={styles.select}
+        inputProps={{ 'aria-label': 'Model' }}
+      >
+        {models.map((option) => (
+          <MenuItem key={option} value={option}>
+            {option}
+          </MenuItem>
+        ))}
+      </Select>
+    </Tooltip>
+  );
+}
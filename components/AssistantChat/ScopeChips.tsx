@@ -0,0 +1,81 @@
+'use client';
+
+import FilterAltOutlinedIcon from '@mui/icons-material/FilterAltOutlined';
+import InsertDriveFileOutlinedIcon from '@mui/icons-material/InsertDriveFileOutlined';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { isEmptyScope } from '@/lib/chatScope';
+import { formatMetadataFilter } from '@/lib/metadataFilter';
+import type { AssistantChatScope } from '@/lib/types';
+
+interface ScopeChipsProps {
+  scope: AssistantChatScope;
+  onChange: (scope: AssistantChatScope) => void;
+  disabled?: boolean;
+}
+
+const styles = {
+  root: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    alignItems: 'center',
+    gap: 0.5,
+    px: 2,
+    pt: 1,
+  },
+  chip: {
+    maxWidth: 220,
+  },
+};
+
+const MAX_FILTER_LABEL_LENGTH = 40;
+
+function formatFilter(filter: Record<string, unknown>) {
+  const text = formatMetadataFilter(filter);
+  return text.length > MAX_FILTER_LABEL_LENGTH
+    ? `${text.slice(0, MAX_FILTER_LABEL_LENGTH - 1)}…`
+    : text;
+}
+
+// The documents the next questions are limited to; removing every chip
+// returns to searching all files
+export default function ScopeChips({ scope, onChange, disabled = false }: ScopeChipsProps) {
+  if (isEmptyScope(scope)) return null;
+
+  return (
+    <Box sx={styles.root}>
+      <Typography variant="body2" color="text.secondary" sx={{ mr: 0.5 }}>
+        Searching only:
+      </Typography>
+      {scope.files.map((file) => (
+        <Chip
+          key={file.id}
+          size="small"
+          icon={<InsertDriveFileOutlinedIcon />}
+          label={file.name}
+          title={file.name}
+          sx={styles.chip}
+          disabled={disabled}
+          onDelete={() => onChange({
+            ...scope,
+            files: scope.files.filter((candidate) => candidate.id !== file.id),
+          })}
+        />
+      ))}
+      {scope.filter && (
+        <Tooltip title={<pre style={{ margin: 0 }}>{JSON.stringify(scope.filter, null, 2)}</pre>}>
+          <Chip
+            size="small"
+            icon={<FilterAltOutlinedIcon />}
+            label={formatFilter(scope.filter)}
+            sx={styles.chip}
+            disabled={disabled}
+            onDelete={() => onChange({ ...scope, filter: null })}
+          />
+        </Tooltip>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import ContentCopyOutlinedIcon from '@mui/icons-material/ContentCopyOutlined';
+import IosShareOutlinedIcon from '@mui/icons-material/IosShareOutlined';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import InputAdornment from '@mui/material/InputAdornment';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import { getExportTitle } from '@/lib/exportConversation';
+import { createShare, getShareUrl, revokeShare } from '@/lib/shares/client';
+import type { AssistantChatSession, AssistantConversationShare } from '@/lib/types';
+
+interface ShareButtonProps {
+  chat: AssistantChatSession;
+  conversationId: string | null; // Set once the chat is saved
+  onNotice: (message: string) => void;
+}
+
+// Values are days; 0 means the link never expires
+const EXPIRY_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: '1 day' },
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+];
+
+export default function ShareButton({ chat, conversationId, onNotice }: ShareButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [share, setShare] = useState<AssistantConversationShare | null>(null);
+  const [revoked, setRevoked] = useState(false);
+  const [pending, setPending] = useState(false);
+  const canShare = !!conversationId && chat.messages.length > 0 && !chat.loading;
+
+  const handleClose = () => {
+    setOpen(false);
+    setShare(null);
+    setRevoked(false);
+  };
+
+  const handleCreate = async () => {
+    if (!conversationId) return;
+    setPending(true);
+    try {
+      setShare(await createShare({
+        conversationId,
+        // Only the branch being shown is shared
+        leafId: chat.currentLeafId,
+        title: getExportTitle(chat),
+        expiresInDays: expiresInDays || null,
+      }));
+    } catch (error) {
+      console.error('Error sharing conversation:', error);
+      onNotice(error instanceof Error ? error.message : 'Failed to share conversation');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.id));
+      onNotice('Link copied');
+    } catch {
+      onNotice('Failed to copy link');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!share) return;
+    setPending(true);
+    try {
+      await revokeShare(share.id);
+      setRevoked(true);
+    } catch (error) {
+      console.error('Error revoking share:', error);
+      onNotice(error instanceof Error ? error.message : 'Failed to revoke link');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title="Share">
+        <span>
+          <IconButton
+            size="small"
+            onClick={() => setOpen(true)}
+            disabled={!canShare}
+            aria-label="Share conversation"
+          >
+            <IosShareOutlinedIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+        <DialogTitle>Share conversation</DialogTitle>
+        <DialogContent>
+          {!share ? (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Anyone with the link can read a snapshot of this conversation, including
+                its citations. Messages sent later are not included.
+              </Typography>
+              <TextField
+                select
+                fullWidth
+                size="small"
+                label="Link expires"
+                value={expiresInDays}
+                onChange={(event) => setExpiresInDays(Number(event.target.value))}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </>
+          ) : revoked ? (
+            <Typography variant="body2">
+              The link has been revoked and no longer shows the conversation.
+            </Typography>
+          ) : (
+            <>
+              <TextField
+                fullWidth
+                size="small"
+                value={getShareUrl(share.id)}
+                InputProps={{
+                  readOnly: true,
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton size="small" onClick={handleCopy} aria-label="Copy link">
+                        <ContentCopyOutlinedIcon fontSize="small" />
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+                onFocus={(event) => event.target.select()}
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {share.expires_on
+                  ? `Expires ${new Date(share.expires_on).toLocaleString()}`
+                  : 'This link does not expire.'}
+              </Typography>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {share && !revoked && (
+            <Button color="error" onClick={handleRevoke} disabled={pending} sx={{ mr: 'auto' }}>
+              Revoke link
+            </Button>
+          )}
+          <Button onClick={handleClose}>{share ? 'Done' : 'Cancel'}</Button>
+          {!share && (
+            <Button variant="contained" onClick={handleCreate} disabled={pending}>
+              Create link
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
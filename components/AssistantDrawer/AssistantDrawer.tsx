@@ -1,6 +1,8 @@
 'use client';
 
 import Box from '@mui/material/Box';
+import DocumentViewer from '@/components/DocumentViewer/DocumentViewer';
+import { useDocumentViewer } from '@/lib/DocumentViewerContext';
 import DrawerPanel from './DrawerPanel';
 import FilesPanel from './FilesPanel/FilesPanel';
 import type { DrawerControls } from './DrawerPanel';
@@ -24,10 +26,17 @@ const styles = {
 };
 
 export default function AssistantDrawer({ assistantName, controls }: AssistantDrawerProps) {
+  const viewer = useDocumentViewer();
+  const viewedDocument = viewer?.document;
+
   return (
     <Box sx={styles.root}>
-      <DrawerPanel controls={controls}>
-        <FilesPanel assistantName={assistantName} />
+      <DrawerPanel controls={controls} title={viewedDocument ? 'Document' : 'Files'}>
+        {viewedDocument ? (
+          <DocumentViewer document={viewedDocument} onClose={viewer.closeDocument} />
+        ) : (
+          <FilesPanel assistantName={assistantName} />
+        )}
       </DrawerPanel>
     </Box>
   );
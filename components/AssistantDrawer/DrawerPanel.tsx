@@ -11,6 +11,7 @@ export { DRAWER_PANEL_HEADER_HEIGHT };
 
 interface DrawerPanelProps {
   controls: DrawerControls;
+  title: string;
   children: React.ReactNode;
 }
 
@@ -47,7 +48,7 @@ const styles = {
   }),
 };
 
-export default function DrawerPanel({ controls, children }: DrawerPanelProps) {
+export default function DrawerPanel({ controls, title, children }: DrawerPanelProps) {
   const isMobile = useMediaQuery(`(max-width:${MOBILE_BREAKPOINT}px)`);
   
   return (
@@ -66,7 +67,7 @@ export default function DrawerPanel({ controls, children }: DrawerPanelProps) {
         </Tooltip>
         <Box sx={{ flex: 1 }}>
           <Box component="span" sx={{ fontWeight: 600, fontSize: '1rem' }}>
-            Files
+            {title}
           </Box>
         </Box>
       </Box>
@@ -0,0 +1,131 @@
+'use client';
+
+import ContentCopyOutlinedIcon from '@mui/icons-material/ContentCopyOutlined';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import { formatFileTime } from '@/lib/files';
+import type { AssistantFile } from '@/lib/types';
+
+interface FileDetailsDialogProps {
+  file: AssistantFile;
+  statusLabel: string;
+  citationCount: number;
+  open: boolean;
+  onClose: () => void;
+}
+
+const styles = {
+  table: {
+    '& td': {
+      px: 1,
+      py: 0.75,
+      verticalAlign: 'top',
+      overflowWrap: 'anywhere' as const,
+    },
+    '& td:first-of-type': {
+      width: 120,
+      color: 'text.secondary',
+    },
+  },
+  id: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 0.5,
+    fontFamily: 'monospace',
+  },
+  sectionTitle: {
+    mt: 2,
+    mb: 0.5,
+  },
+};
+
+function formatMetadataValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function FileDetailsDialog({ file, statusLabel, citationCount, open, onClose }: FileDetailsDialogProps) {
+  const [copied, setCopied] = useState(false);
+  const metadata = Object.entries(file.metadata || {});
+
+  const handleCopyId = async () => {
+    try {
+      await navigator.clipboard.writeText(file.id);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying file id:', error);
+    }
+  };
+
+  const rows: [string, React.ReactNode][] = [
+    ['ID', (
+      <Box sx={styles.id}>
+        <span>{file.id}</span>
+        <Tooltip title={copied ? 'Copied' : 'Copy file ID'}>
+          <IconButton size="small" onClick={handleCopyId} aria-label="Copy file ID">
+            <ContentCopyOutlinedIcon fontSize="inherit" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+    )],
+    ['Status', statusLabel],
+    ['Processed', `${Math.round(file.percent_done * 100)}%`],
+    ['Created', formatFileTime(file.created_on)],
+    ['Updated', formatFileTime(file.updated_on)],
+    ['Citations', `${citationCount} in this conversation`],
+  ];
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ overflowWrap: 'anywhere' }}>{file.name}</DialogTitle>
+      <DialogContent>
+        <Table size="small" sx={styles.table}>
+          <TableBody>
+            {rows.map(([label, value]) => (
+              <TableRow key={label}>
+                <TableCell>{label}</TableCell>
+                <TableCell>{value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Typography variant="subtitle2" sx={styles.sectionTitle}>
+          Metadata
+        </Typography>
+        {metadata.length > 0 ? (
+          <Table size="small" sx={styles.table}>
+            <TableBody>
+              {metadata.map(([key, value]) => (
+                <TableRow key={key}>
+                  <TableCell>{key}</TableCell>
+                  <TableCell>{formatMetadataValue(value)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Typography color="text.secondary" variant="body2">
+            No metadata
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import CloseIcon from '@mui/icons-material/Close';
+import SearchIcon from '@mui/icons-material/Search';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import IconButton from '@mui/material/IconButton';
+import InputAdornment from '@mui/material/InputAdornment';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import {
+  FILE_SORTS,
+  FILTERABLE_STATUSES,
+  type FileFilters,
+  type FileSort,
+  type FilterableStatus,
+} from '@/lib/fileFilters';
+import { AssistantFileStatus } from '@/lib/types';
+
+interface FileFiltersBarProps {
+  filters: FileFilters;
+  counts: Record<FilterableStatus, number>;
+  onChange: (update: Partial<FileFilters>) => void;
+}
+
+const STATUS_LABELS: Record<FilterableStatus, string> = {
+  [AssistantFileStatus.AVAILABLE]: 'Available',
+  [AssistantFileStatus.PROCESSING]: 'Processing',
+  [AssistantFileStatus.PROCESSING_FAILED]: 'Failed',
+};
+
+const styles = {
+  root: {
+    mb: 1.5,
+  },
+  fields: {
+    display: 'flex',
+    gap: 1,
+  },
+  sort: {
+    width: 150,
+    flexShrink: 0,
+  },
+  chips: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: 0.5,
+    mt: 1,
+  },
+};
+
+export default function FileFiltersBar({ filters, counts, onChange }: FileFiltersBarProps) {
+  const toggleStatus = (status: FilterableStatus) => {
+    onChange({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((candidate) => candidate !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.fields}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder="Search files and metadata"
+          value={filters.query}
+          onChange={(event) => onChange({ query: event.target.value })}
+          inputProps={{ 'aria-label': 'Search files' }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: filters.query && (
+              <InputAdornment position="end">
+                <IconButton size="small" edge="end" onClick={() => onChange({ query: '' })} aria-label="Clear search">
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          value={filters.sort}
+          onChange={(event) => onChange({ sort: event.target.value as FileSort })}
+          inputProps={{ 'aria-label': 'Sort files' }}
+          sx={styles.sort}
+        >
+          {FILE_SORTS.map((sort) => (
+            <MenuItem key={sort.value} value={sort.value}>
+              {sort.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      <Box sx={styles.chips}>
+        {FILTERABLE_STATUSES.map((status) => {
+          const active = filters.statuses.includes(status);
+          return (
+            <Chip
+              key={status}
+              size="small"
+              label={`${STATUS_LABELS[status]} (${counts[status]})`}
+              color={active ? 'primary' : 'default'}
+              variant={active ? 'filled' : 'outlined'}
+              onClick={() => toggleStatus(status)}
+              aria-pressed={active}
+            />
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
@@ -1,19 +1,43 @@
 'use client';
 
+import DeleteOutlineOutlinedIcon from '@mui/icons-material/DeleteOutlineOutlined';
 import DownloadOutlinedIcon from '@mui/icons-material/DownloadOutlined';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
+import ReplayIcon from '@mui/icons-material/Replay';
 import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import Chip from '@mui/material/Chip';
+import Collapse from '@mui/material/Collapse';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogTitle from '@mui/material/DialogTitle';
 import IconButton from '@mui/material/IconButton';
+import LinearProgress from '@mui/material/LinearProgress';
 import Menu from '@mui/material/Menu';
 import MenuItem from '@mui/material/MenuItem';
 import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
 import { useState } from 'react';
+import { isScopableFile } from '@/lib/chatScope';
+import { formatFileTime, getFileDownloadUrl, isFailedFile, isProcessingFile } from '@/lib/files';
 import type { AssistantFile } from '@/lib/types';
 import { AssistantFileStatus as FileStatus, type AssistantFileStatus } from '@/lib/types';
+import FileDetailsDialog from './FileDetailsDialog';
 
 interface FileItemProps {
   file: AssistantFile;
+  selected?: boolean;
+  citationCount?: number; // Times the file is cited in the current conversation
+  onSelectedChange?: (selected: boolean) => void;
+  onDelete?: () => Promise<void>; // Only passed for operators
+  onRetry?: () => Promise<unknown>; // Only passed for operators
 }
 
 const styles = {
@@ -49,6 +73,10 @@ const styles = {
     justifyContent: 'space-between',
     gap: 2,
   },
+  checkbox: {
+    p: 0.5,
+    ml: -0.5,
+  },
   name: {
     fontWeight: '600',
     flex: 1,
@@ -57,6 +85,14 @@ const styles = {
     whiteSpace: 'nowrap',
     color: 'text.primary',
   },
+  errorPanel: {
+    mt: 0.75,
+    p: 1,
+    borderRadius: 1,
+    border: 1,
+    borderColor: 'error.main',
+    overflowWrap: 'anywhere' as const,
+  },
   fileInfo: {
     display: 'flex',
     alignItems: 'center',
@@ -102,8 +138,21 @@ function formatDate(dateString: string | undefined): string {
   }
 }
 
-export default function FileItem({ file }: FileItemProps) {
+export default function FileItem({
+  file,
+  selected = false,
+  citationCount = 0,
+  onSelectedChange,
+  onDelete,
+  onRetry,
+}: FileItemProps) {
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [showError, setShowError] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
   const open = Boolean(anchorEl);
 
   const handleDownload = async () => {
@@ -111,7 +160,7 @@ export default function FileItem({ file }: FileItemProps) {
     
     // Use server-side proxy to download file (handles fresh signed URLs and expiration)
     const link = document.createElement('a');
-    link.href = `/api/files/${file.id}/download-file`;
+    link.href = getFileDownloadUrl(file.id);
     link.download = file.name;
     document.body.appendChild(link);
     link.click();
@@ -128,12 +177,64 @@ export default function FileItem({ file }: FileItemProps) {
     setAnchorEl(null);
   };
 
+  const handleDeleteClose = () => {
+    setConfirmingDelete(false);
+    setDeleteError(null);
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete) return;
+    // The file shows as Deleting right away, so close before the request finishes
+    setConfirmingDelete(false);
+    try {
+      await onDelete();
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete file');
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setAnchorEl(null);
+    setShowError(true);
+    setRetrying(true);
+    setRetryError(null);
+    try {
+      await onRetry();
+    } catch (error) {
+      console.error('Error retrying file:', error);
+      setRetryError(error instanceof Error ? error.message : 'Failed to retry file');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
   const isAvailable = file.status === FileStatus.AVAILABLE || file.status === 'Available';
-  const hasSignedUrl = !!file.signed_url;
+  const isFailed = isFailedFile(file);
+  const isDeleting = file.status === FileStatus.DELETING;
+  const isScopable = isScopableFile(file);
 
   return (
     <Box sx={styles.root}>
       <Box sx={styles.header}>
+        {onSelectedChange && (
+          <Tooltip
+            title={isScopable ? 'Select to chat with this file' : 'Only files uploaded from this app can be selected'}
+            placement="left"
+          >
+            <span>
+              <Checkbox
+                size="small"
+                checked={selected}
+                onChange={(event) => onSelectedChange(event.target.checked)}
+                disabled={!isScopable || !isAvailable}
+                inputProps={{ 'aria-label': `Select ${file.name}` }}
+                sx={styles.checkbox}
+              />
+            </span>
+          </Tooltip>
+        )}
         <Tooltip title={file.name} placement="left">
           <Typography noWrap sx={styles.name}>
             {file.name}
@@ -149,20 +250,124 @@ export default function FileItem({ file }: FileItemProps) {
             Updated {formatDate(file.updated_on)}
           </Typography>
         </Box>
+      ) : isProcessingFile(file) ? (
+        <>
+          <Typography color="text.secondary" variant="body2">
+            {getFileStatusLabel(file.status)} ({Math.round(file.percent_done * 100)}%)
+          </Typography>
+          <LinearProgress variant="determinate" value={file.percent_done * 100} sx={{ mt: 0.5 }} />
+        </>
+      ) : isFailed ? (
+        <>
+          <Box sx={styles.fileInfo}>
+            <Chip
+              size="small"
+              color="error"
+              variant="outlined"
+              icon={<ErrorOutlineIcon />}
+              label={getFileStatusLabel(file.status)}
+            />
+            <Button
+              size="small"
+              color="inherit"
+              endIcon={showError ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+              onClick={() => setShowError((current) => !current)}
+              aria-expanded={showError}
+            >
+              Details
+            </Button>
+          </Box>
+          <Collapse in={showError} unmountOnExit>
+            <Box sx={styles.errorPanel}>
+              <Typography variant="body2">
+                {file.error_message || 'The assistant did not report why processing failed.'}
+              </Typography>
+              <Typography color="text.secondary" variant="caption" component="p" sx={{ mt: 0.5 }}>
+                Uploaded {formatFileTime(file.created_on)} · Failed {formatFileTime(file.updated_on)}
+              </Typography>
+              {retryError && (
+                <Typography color="error" variant="body2" sx={{ mt: 0.5 }}>
+                  {retryError}
+                </Typography>
+              )}
+              {onRetry && (
+                <Button
+                  size="small"
+                  startIcon={<ReplayIcon />}
+                  onClick={handleRetry}
+                  disabled={retrying}
+                  sx={{ mt: 0.5 }}
+                >
+                  {retrying ? 'Retrying…' : 'Retry'}
+                </Button>
+              )}
+            </Box>
+          </Collapse>
+        </>
       ) : (
         <Typography color="text.secondary" variant="body2">
           {getFileStatusLabel(file.status)}
         </Typography>
       )}
       <Menu anchorEl={anchorEl} open={open} onClose={handleMenuClose}>
-        <MenuItem 
-          onClick={handleDownload} 
-          disabled={!hasSignedUrl || !isAvailable}
-        >
+        {/* The download proxy signs a fresh URL, so listed files don't need one */}
+        <MenuItem onClick={handleDownload} disabled={!isAvailable}>
           <DownloadOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
           Download
         </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            setShowDetails(true);
+          }}
+        >
+          <InfoOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          Details
+        </MenuItem>
+        {onRetry && isFailed && (
+          <MenuItem onClick={handleRetry} disabled={retrying}>
+            <ReplayIcon sx={{ mr: 1 }} fontSize="small" />
+            Retry
+          </MenuItem>
+        )}
+        {onDelete && (
+          <MenuItem
+            onClick={() => {
+              setAnchorEl(null);
+              setConfirmingDelete(true);
+            }}
+            disabled={isDeleting}
+            sx={{ color: 'error.main' }}
+          >
+            <DeleteOutlineOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+            Delete
+          </MenuItem>
+        )}
       </Menu>
+      <FileDetailsDialog
+        file={file}
+        statusLabel={getFileStatusLabel(file.status)}
+        citationCount={citationCount}
+        open={showDetails}
+        onClose={() => setShowDetails(false)}
+      />
+      <Dialog open={confirmingDelete || !!deleteError} onClose={handleDeleteClose}>
+        <DialogTitle>{deleteError ? 'Could not delete file' : 'Delete file?'}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {deleteError
+              ?? `"${file.name}" will be removed from the assistant and can no longer be cited. This cannot be undone.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDeleteClose}>{deleteError ? 'Close' : 'Cancel'}</Button>
+          {!deleteError && (
+            <Button color="error" variant="contained" onClick={handleDelete}>
+              Delete
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 }
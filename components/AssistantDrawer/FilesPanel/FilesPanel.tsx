@@ -1,33 +1,106 @@
 'use client';
 
+import Alert from '@mui/material/Alert';
 import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
 import CircularProgress from '@mui/material/CircularProgress';
+import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
+import FileUploadOutlinedIcon from '@mui/icons-material/FileUploadOutlined';
 import FolderOpenOutlinedIcon from '@mui/icons-material/FolderOpenOutlined';
-import { useQuery } from '@tanstack/react-query';
-import type { AssistantFile } from '@/lib/types';
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import { useChatContext } from '@/lib/ChatContext';
+import { useDeleteFile } from '@/hooks/useDeleteFile';
+import { useFileFilters } from '@/hooks/useFileFilters';
+import { useFileUpload } from '@/hooks/useFileUpload';
+import { useRetryFile } from '@/hooks/useRetryFile';
+import { countCitationsByFile } from '@/lib/citations';
+import { getThread } from '@/lib/chatTree';
+import { countFilesByStatus, getFileFilterParams, type FileFilters } from '@/lib/fileFilters';
+import { getFileListRequestInit } from '@/lib/fileListClient';
+import { isPendingFile, MAX_UPLOAD_BYTES, UPLOAD_FILE_EXTENSIONS } from '@/lib/files';
+import { AssistantFileStatus, type AssistantFile, type AssistantFilePage } from '@/lib/types';
+import FileFiltersBar from './FileFiltersBar';
 import FileItem from './FileItem';
+import OperatorSignIn from './OperatorSignIn';
+import PendingUploadItem from './PendingUploadItem';
 
 type FilesPanelProps = {
   assistantName: string; // Only used for React Query cache key differentiation
 };
 
+const FILES_PAGE_SIZE = 100;
+
+// How often files are re-fetched while any of them is processing or deleting
+const PENDING_POLL_INTERVAL = 2000;
+
+// Rows are measured once rendered; this only sizes the scrollbar beforehand
+const ESTIMATED_ROW_HEIGHT = 64;
+const ROW_GAP = 16;
+
+const UPLOAD_LIMIT = `${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`;
+
 const styles = {
   root: {
+    position: 'relative',
     display: 'flex',
     flexDirection: 'column',
     height: '100%',
     overflow: 'hidden',
     p: 2,
   },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 1,
+    mb: 1,
+  },
+  selectionBar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    mb: 1,
+    px: 1,
+    py: 0.5,
+    borderRadius: 1,
+    backgroundColor: 'action.hover',
+  },
+  dropOverlay: {
+    position: 'absolute',
+    inset: '8px',
+    zIndex: 1,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    border: 2,
+    borderStyle: 'dashed',
+    borderColor: 'primary.main',
+    borderRadius: 1,
+    backgroundColor: 'background.paper',
+    opacity: 0.95,
+    pointerEvents: 'none',
+  },
   filesScrollBox: {
     overflowY: 'auto',
     flex: 1,
   },
   files: {
-    display: 'flex',
-    flexDirection: 'column',
-    gap: 2,
+    position: 'relative',
+    width: '100%',
+  },
+  row: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: '100%',
+  },
+  noMatches: {
+    mt: 2,
+    textAlign: 'center',
   },
   loading: {
     display: 'flex',
@@ -59,8 +132,17 @@ const styles = {
   },
 };
 
-async function fetchFiles(): Promise<{ files: AssistantFile[] }> {
-  const response = await fetch('/api/files');
+// Loads one page of the files matching `filters`, which the server applies so
+// pages can be loaded as the list scrolls. Pages are metadata only and
+// unchanged ones revalidate against their ETag.
+async function fetchFilesPage(filters: FileFilters, cursor: string | null): Promise<AssistantFilePage> {
+  const params = new URLSearchParams({ limit: String(FILES_PAGE_SIZE) });
+  if (cursor) params.set('cursor', cursor);
+  Object.entries(getFileFilterParams(filters)).forEach(([key, value]) => {
+    if (value !== null) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/files?${params}`, getFileListRequestInit());
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
     throw new Error(errorData.error || 'Failed to fetch files');
@@ -69,15 +151,133 @@ async function fetchFiles(): Promise<{ files: AssistantFile[] }> {
 }
 
 export default function FilesPanel({ assistantName }: FilesPanelProps) {
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['files', assistantName],
-    queryFn: fetchFiles,
-    staleTime: 0, // Always consider data stale to ensure fresh signed URLs on page refresh
+  const { filters, setFilters } = useFileFilters();
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ['files', assistantName, filters],
+    queryFn: ({ pageParam }) => fetchFilesPage(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    // Keep showing the previous results while the filters change
+    placeholderData: keepPreviousData,
+    staleTime: 0, // Always consider data stale so uploads and deletions show on page refresh
     refetchOnMount: true, // Always refetch when component mounts (e.g., on page refresh)
+    // Poll until every loaded file has finished processing or deleting
+    refetchInterval: (query) =>
+      query.state.data?.pages.some((page) => page.files.some(isPendingFile)) ? PENDING_POLL_INTERVAL : false,
   });
 
-  const files = data?.files || [];
-  const hasFiles = files.length > 0;
+  const { data: config } = useAppConfig();
+  const isOperator = config?.isOperator ?? false;
+  const canUpload = (config?.fileUpload ?? false) && isOperator;
+  const deleteFile = useDeleteFile(assistantName);
+  const retryFile = useRetryFile(assistantName);
+  const { uploads, uploadFiles, dismissUpload } = useFileUpload(assistantName);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const { chat, scope, setScope } = useChatContext();
+  // Selected files stay selected while filtered out or not loaded
+  const [selection, setSelection] = useState<Map<string, AssistantFile>>(new Map());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const visibleFiles = useMemo(() => data?.pages.flatMap((page) => page.files) ?? [], [data]);
+  // Counts cover every file, not just the loaded pages
+  const statusCounts = useMemo(() => data?.pages[0]?.status_counts ?? countFilesByStatus([]), [data]);
+  const citationCounts = useMemo(
+    () => countCitationsByFile(getThread(chat.messages, chat.currentLeafId)),
+    [chat.messages, chat.currentLeafId]
+  );
+  const failedCount = statusCounts[AssistantFileStatus.PROCESSING_FAILED];
+  const showingFailedOnly = filters.statuses.length === 1
+    && filters.statuses[0] === AssistantFileStatus.PROCESSING_FAILED;
+  const selectedFiles = Array.from(selection.values());
+
+  const setSelected = (file: AssistantFile, selected: boolean) => {
+    setSelection((prev) => {
+      const next = new Map(prev);
+      if (selected) next.set(file.id, file);
+      else next.delete(file.id);
+      return next;
+    });
+  };
+
+  const handleDelete = async (file: AssistantFile) => {
+    await deleteFile(file.id);
+    setSelected(file, false);
+  };
+
+  // Limits the chat to the selected files, keeping any metadata filter
+  const handleChatWithSelected = () => {
+    setScope({
+      ...scope,
+      files: selectedFiles.map(({ id, name }) => ({ id, name })),
+    });
+    setSelection(new Map());
+  };
+  const hasFiles = (data?.pages[0]?.total ?? 0) > 0 || uploads.length > 0;
+
+  // Uploads in progress stay on top of the (virtualized) list regardless of filters
+  const rowCount = uploads.length + visibleFiles.length;
+  const virtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    gap: ROW_GAP,
+    getItemKey: (index) =>
+      index < uploads.length ? uploads[index].id : visibleFiles[index - uploads.length].id,
+  });
+
+  // Loads the next page once the last loaded file scrolls into view
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastIndex = virtualItems.length > 0 ? virtualItems[virtualItems.length - 1].index : -1;
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && lastIndex >= rowCount - 1) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, lastIndex, rowCount, fetchNextPage]);
+
+  const renderRow = (index: number) => {
+    if (index < uploads.length) {
+      const upload = uploads[index];
+      return <PendingUploadItem upload={upload} onDismiss={() => dismissUpload(upload.id)} />;
+    }
+    const file = visibleFiles[index - uploads.length];
+    return (
+      <FileItem
+        file={file}
+        selected={selection.has(file.id)}
+        citationCount={citationCounts.get(file.id) ?? 0}
+        onSelectedChange={(selected) => setSelected(file, selected)}
+        onDelete={isOperator ? () => handleDelete(file) : undefined}
+        onRetry={isOperator ? () => retryFile(file.id) : undefined}
+      />
+    );
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    uploadFiles(selected);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!canUpload || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Ignore leaving into a child element of the panel
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!canUpload) return;
+    event.preventDefault();
+    setDragging(false);
+    uploadFiles(Array.from(event.dataTransfer.files));
+  };
 
   if (isLoading) {
     return (
@@ -99,7 +299,69 @@ export default function FilesPanel({ assistantName }: FilesPanelProps) {
   }
 
   return (
-    <Box sx={styles.root}>
+    <Box
+      sx={styles.root}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {(canUpload || config?.operatorSignIn) && (
+        <Box sx={styles.toolbar}>
+          {config?.operatorSignIn && <OperatorSignIn isOperator={isOperator} />}
+          {canUpload && (
+            <>
+              <Tooltip title={`${UPLOAD_FILE_EXTENSIONS.join(', ')} up to ${UPLOAD_LIMIT} each`}>
+                <Button
+                  size="small"
+                  startIcon={<FileUploadOutlinedIcon />}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Upload
+                </Button>
+              </Tooltip>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={UPLOAD_FILE_EXTENSIONS.join(',')}
+                multiple
+                hidden
+                onChange={handleFileInput}
+              />
+            </>
+          )}
+        </Box>
+      )}
+      {failedCount > 0 && (
+        <Alert
+          severity="error"
+          sx={{ mb: 1 }}
+          action={!showingFailedOnly && (
+            <Button color="inherit" size="small" onClick={() => setFilters({ statuses: [AssistantFileStatus.PROCESSING_FAILED] })}>
+              Show
+            </Button>
+          )}
+        >
+          {failedCount === 1 ? '1 file failed' : `${failedCount} files failed`} to process
+        </Alert>
+      )}
+      {selectedFiles.length > 0 && (
+        <Box sx={styles.selectionBar}>
+          <Typography variant="body2" sx={{ flex: 1 }}>
+            {selectedFiles.length} selected
+          </Typography>
+          <Button size="small" onClick={() => setSelection(new Map())}>
+            Clear
+          </Button>
+          <Button size="small" variant="contained" onClick={handleChatWithSelected}>
+            Chat with selected
+          </Button>
+        </Box>
+      )}
+      {dragging && (
+        <Box sx={styles.dropOverlay}>
+          <Typography color="primary">Drop files to upload (up to {UPLOAD_LIMIT} each)</Typography>
+        </Box>
+      )}
       {!hasFiles ? (
         <Box sx={styles.emptyState}>
           <FolderOpenOutlinedIcon sx={styles.emptyIcon} />
@@ -107,17 +369,35 @@ export default function FilesPanel({ assistantName }: FilesPanelProps) {
             No files uploaded yet
           </Typography>
           <Typography color="text.secondary" variant="body2" sx={{ mt: 1 }}>
-            Files uploaded to your assistant will appear here
+            {canUpload
+              ? 'Drag files here or use Upload to add them to your assistant'
+              : 'Files uploaded to your assistant will appear here'}
           </Typography>
         </Box>
       ) : (
-        <Box sx={styles.filesScrollBox}>
-          <Box sx={styles.files}>
-            {files.map((file) => (
-              <FileItem key={file.id} file={file} />
-            ))}
+        <>
+          <FileFiltersBar filters={filters} counts={statusCounts} onChange={setFilters} />
+          <Box ref={scrollRef} sx={styles.filesScrollBox}>
+            {rowCount === 0 ? (
+              <Typography color="text.secondary" variant="body2" sx={styles.noMatches}>
+                No files match your filters
+              </Typography>
+            ) : (
+              <Box sx={{ ...styles.files, height: virtualizer.getTotalSize() }}>
+                {virtualItems.map((item) => (
+                  <Box
+                    key={item.key}
+                    ref={virtualizer.measureElement}
+                    data-index={item.index}
+                    sx={{ ...styles.row, transform: `translateY(${item.start}px)` }}
+                  >
+                    {renderRow(item.index)}
+                  </Box>
+                ))}
+              </Box>
+            )}
           </Box>
-        </Box>
+        </>
       )}
     </Box>
   );
@@ -0,0 +1,90 @@
+'use client';
+
+import LockOpenOutlinedIcon from '@mui/icons-material/LockOpenOutlined';
+import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import { useState } from 'react';
+import { useOperator } from '@/hooks/useOperator';
+
+interface OperatorSignInProps {
+  isOperator: boolean;
+}
+
+export default function OperatorSignIn({ isOperator }: OperatorSignInProps) {
+  const { signIn, signOut } = useOperator();
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleClose = () => {
+    setOpen(false);
+    setToken('');
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setPending(true);
+    try {
+      await signIn(token);
+      handleClose();
+    } catch (signInError) {
+      setError(signInError instanceof Error ? signInError.message : 'Failed to sign in');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (isOperator) {
+    return (
+      <Tooltip title="Sign out as operator">
+        <IconButton size="small" onClick={() => signOut().catch(console.error)} aria-label="Sign out as operator">
+          <LockOpenOutlinedIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <>
+      <Tooltip title="Operator sign in">
+        <IconButton size="small" onClick={() => setOpen(true)} aria-label="Operator sign in">
+          <LockOutlinedIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+        <form onSubmit={handleSubmit}>
+          <DialogTitle>Operator sign in</DialogTitle>
+          <DialogContent>
+            <TextField
+              autoFocus
+              fullWidth
+              size="small"
+              type="password"
+              label="Operator token"
+              value={token}
+              onChange={(event) => setToken(event.target.value)}
+              error={!!error}
+              helperText={error}
+              sx={{ mt: 1 }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleClose}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={!token || pending}>
+              Sign in
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </>
+  );
+}
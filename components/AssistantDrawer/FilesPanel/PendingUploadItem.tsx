@@ -0,0 +1,64 @@
+'use client';
+
+import CloseIcon from '@mui/icons-material/Close';
+import Box from '@mui/material/Box';
+import IconButton from '@mui/material/IconButton';
+import LinearProgress from '@mui/material/LinearProgress';
+import Typography from '@mui/material/Typography';
+import type { PendingUpload } from '@/hooks/useFileUpload';
+
+interface PendingUploadItemProps {
+  upload: PendingUpload;
+  onDismiss: () => void;
+}
+
+const styles = {
+  root: {
+    p: 0.75,
+    pt: 0,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 2,
+    minHeight: 34,
+  },
+  name: {
+    fontWeight: '600',
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    color: 'text.primary',
+  },
+};
+
+export default function PendingUploadItem({ upload, onDismiss }: PendingUploadItemProps) {
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.header}>
+        <Typography noWrap sx={styles.name}>
+          {upload.name}
+        </Typography>
+        {upload.error && (
+          <IconButton size="small" onClick={onDismiss} aria-label="Dismiss">
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+      {upload.error ? (
+        <Typography color="error" variant="body2">
+          {upload.error}
+        </Typography>
+      ) : (
+        <>
+          <Typography color="text.secondary" variant="body2">
+            Uploading…
+          </Typography>
+          <LinearProgress sx={{ mt: 0.5 }} />
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useState } from 'react';
 import ErrorOutlineOutlinedIcon from '@mui/icons-material/ErrorOutlineOutlined';
 import PersonIcon from '@mui/icons-material/Person';
+import ReplayIcon from '@mui/icons-material/Replay';
 import Avatar from '@mui/material/Avatar';
 import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
 import CircularProgress from '@mui/material/CircularProgress';
 import Link from '@mui/material/Link';
 import Typography from '@mui/material/Typography';
@@ -13,16 +15,47 @@ import ReactMarkdown from 'react-markdown';
 import rehypeKatex from 'rehype-katex';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
+import type { PluggableList } from 'unified';
 import PineconeLogoIcon from '@/components/PineconeLogoIcon';
-import type { AssistantChatMessage, AssistantChatMessageCitation } from '@/lib/types';
+import { getCitationSources, getOrderedCitations, getSortedPages } from '@/lib/citations';
+import { useDocumentViewer, useOpenReference } from '@/lib/DocumentViewerContext';
+import type { AppErrorCode } from '@/lib/errorCodes';
+import { getGrounding, remarkGrounding, UNCITED_CLASS } from '@/lib/grounding';
+import { CITATION_ELEMENT, CITATION_INDEX_ATTRIBUTE, remarkCitations } from '@/lib/remarkCitations';
+import type {
+  AssistantChatMessage,
+  AssistantChatMessageCitation,
+  AssistantCitationReference,
+} from '@/lib/types';
+import CitationSources from './CitationSources';
+import EditMessageForm from './EditMessageForm';
+import MessageActions, { type MessageBranch } from './MessageActions';
 
 interface ChatMessageBlockProps {
   message: ChatBlockMessage;
+  branch?: MessageBranch;
+  actionsDisabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onRetry?: () => void; // For error blocks: resend the question that failed. Only for errors a retry may fix
 }
 
-interface ChatBlockMessage extends Omit<AssistantChatMessage, 'role'> {
+type ChatBlockMessage = Pick<AssistantChatMessage, 'content' | 'citations' | 'stopped' | 'interrupted'> & {
   role: AssistantChatMessage['role'] | 'error';
-}
+  errorCode?: AppErrorCode; // For error blocks, what the user can do about it
+};
+
+// Shown under an error block's message
+const ERROR_GUIDANCE: Record<AppErrorCode, string> = {
+  auth: 'The Pinecone API key was rejected. Ask the operator to check PINECONE_API_KEY.',
+  not_found: 'The assistant could not be found. Ask the operator to check PINECONE_ASSISTANT_NAME.',
+  rate_limited: 'Too many requests are being made. Wait a minute before asking again.',
+  model_unavailable: 'Pick another model below and ask again.',
+  context_too_long: 'Start a new chat, or edit an earlier question to shorten the conversation.',
+  upstream_unavailable: 'Pinecone or the model provider is having trouble. Try again in a few minutes.',
+  bad_request: 'Try rephrasing your question or clearing the chat scope and filters.',
+  internal: 'Something went wrong on the server. Try again, and let the operator know if it keeps happening.',
+};
 
 const styles = {
   root: {
@@ -52,6 +85,12 @@ const styles = {
     '> p:last-of-type': {
       mb: 0,
     },
+    [`.${UNCITED_CLASS}`]: {
+      backgroundColor: 'rgba(255, 152, 0, 0.18)',
+      textDecoration: 'underline wavy',
+      textDecorationColor: (theme: any) => theme.palette.warning.main,
+      textDecorationThickness: '1px',
+    },
     table: {
       my: 0.5,
       width: '100%',
@@ -104,6 +143,23 @@ const styles = {
     color: 'text.secondary',
     mt: 0.25,
   },
+  errorGuidance: {
+    display: 'block',
+    mt: 0.5,
+    fontSize: '0.875rem',
+    color: 'text.secondary',
+  },
+  retryButton: {
+    mt: 1,
+    textTransform: 'none' as const,
+  },
+  stoppedLabel: {
+    display: 'block',
+    mt: 1,
+    fontSize: '0.75rem',
+    fontStyle: 'italic',
+    color: 'text.secondary',
+  },
 };
 
 function getRoleContent(role: 'assistant' | 'user' | 'error') {
@@ -154,20 +210,13 @@ function InlineCitation({
   citationNumber: number;
   citation: AssistantChatMessageCitation;
 }) {
-  const handleFileClick = async (fileId: string | null, signedUrl: string | null, e: React.MouseEvent) => {
+  const viewer = useDocumentViewer();
+  const openReference = useOpenReference();
+
+  const handleFileClick = (reference: AssistantCitationReference, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (fileId) {
-      // Use server-side proxy to download file (handles fresh signed URLs and expiration)
-      const link = document.createElement('a');
-      link.href = `/api/files/${fileId}/download-file`;
-      link.target = '_blank';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } else if (signedUrl) {
-      // Fallback: try direct URL if we don't have file ID
-      window.open(signedUrl, '_blank');
-    }
+    // Opens the cited page and passage in the viewer pane, or downloads the file
+    openReference(reference);
   };
 
   // Show all references without deduplication
@@ -176,7 +225,7 @@ function InlineCitation({
   const tooltipContent = (
     <Box sx={styles.tooltipContent}>
       {references.map((ref, idx) => {
-        const sortedPages = [...ref.pages].sort((a, b) => a - b);
+        const sortedPages = getSortedPages(ref);
         return (
           <Box key={`${ref.file.id}-${idx}`} sx={{ mb: 1 }}>
             <Typography sx={styles.tooltipFile}>
@@ -195,9 +244,9 @@ function InlineCitation({
           </Box>
         );
       })}
-      {references.some(ref => ref.file.signed_url) && (
+      {references.some(ref => ref.file.id || ref.file.signed_url) && (
         <Typography sx={{ fontSize: '0.7rem', color: 'text.secondary', mt: 0.5, fontStyle: 'italic' }}>
-          Click citation to download files
+          {viewer ? 'Click citation to view the source' : 'Click citation to download files'}
         </Typography>
       )}
     </Box>
@@ -218,7 +267,7 @@ function InlineCitation({
           // Click on first available file
           const firstFile = references.find(ref => ref.file.signed_url || ref.file.id);
           if (firstFile) {
-            handleFileClick(firstFile.file.id, firstFile.file.signed_url, e);
+            handleFileClick(firstFile, e);
           }
         }}
       >
@@ -228,231 +277,62 @@ function InlineCitation({
   );
 }
 
-function insertCitationMarkers(
-  content: string,
-  citations?: AssistantChatMessageCitation[]
-): string {
-  if (!citations || citations.length === 0) {
-    return content;
-  }
-
-  // Filter out citations with invalid positions and sort by position
-  const validCitations = citations
-    .filter(citation => citation.position >= 0 && citation.position <= content.length)
-    .sort((a, b) => a.position - b.position);
-  
-  if (validCitations.length === 0) {
-    return content;
-  }
-
-  let result = content;
-
-  // Insert markers from end to beginning to maintain correct string positions
-  // Use sequential numbering based on sorted order
-  for (let i = validCitations.length - 1; i >= 0; i--) {
-    const citation = validCitations[i];
-    // The marker index corresponds to the sorted order (0 = first citation)
-    const marker = `[CITATION_${i}]`;
-    result = result.slice(0, citation.position) + marker + result.slice(citation.position);
-  }
-
-  return result;
-}
-
 function ChatLink(props: React.ComponentProps<typeof Link>) {
   return <Link {...props} target="_blank" rel="noreferrer" sx={styles.link} />;
 }
 
 function ChatMessageBlock({
-  message: { role, content, citations },
+  message: { role, content, citations, stopped, interrupted, errorCode },
+  branch,
+  actionsDisabled = false,
+  onRegenerate,
+  onEdit,
+  onRetry,
 }: ChatMessageBlockProps) {
+  const [editing, setEditing] = useState(false);
+  const [showGrounding, setShowGrounding] = useState(false);
   const roleContent = getRoleContent(role);
   const assistantResponseIsLoading = role === 'assistant' && content === '';
   
-  // Create a map of citation markers to citation data
-  const citationMap = useMemo(() => {
-    if (!citations || citations.length === 0) return new Map();
-    const map = new Map<string, { number: number; citation: AssistantChatMessageCitation }>();
-    // Filter valid citations and sort by position to match insertCitationMarkers
-    const validCitations = citations
-      .filter(citation => citation.position >= 0 && citation.position <= content.length)
-      .sort((a, b) => a.position - b.position);
-    validCitations.forEach((citation, idx) => {
-      map.set(`CITATION_${idx}`, { number: idx + 1, citation });
-    });
-    return map;
-  }, [citations, content]);
+  // Index i is shown as [i + 1]
+  const orderedCitations = useMemo(
+    () => (role === 'assistant' ? getOrderedCitations(content, citations) : []),
+    [role, content, citations]
+  );
 
-  const contentWithMarkers = role === 'assistant' && citations && citations.length > 0
-    ? insertCitationMarkers(content, citations)
-    : content;
+  const sources = useMemo(
+    () => (role === 'assistant' ? getCitationSources(content, citations) : []),
+    [role, content, citations]
+  );
 
-  // Helper function to process nodes and replace citation markers
-  const processNodeForCitations = useCallback((node: any): React.ReactNode => {
-    if (typeof node === 'string') {
-      const parts: React.ReactNode[] = [];
-      const regex = /\[CITATION_(\d+)\]/g;
-      let lastIndex = 0;
-      let match;
+  const canShowGrounding = role === 'assistant' && content !== '';
+  const grounding = useMemo(
+    () => (canShowGrounding && showGrounding ? getGrounding(content, citations) : null),
+    [canShowGrounding, showGrounding, content, citations]
+  );
 
-      while ((match = regex.exec(node)) !== null) {
-        // Add text before marker
-        if (match.index > lastIndex) {
-          parts.push(node.slice(lastIndex, match.index));
-        }
-        
-        // Add citation component
-        const marker = match[1];
-        const citationData = citationMap.get(`CITATION_${marker}`);
-        if (citationData) {
-          parts.push(
-            <InlineCitation
-              key={`citation-${marker}-${lastIndex}`}
-              citationNumber={citationData.number}
-              citation={citationData.citation}
-            />
-          );
-        } else {
-          // If citation not found in map, leave marker as-is (shouldn't happen, but safe fallback)
-          parts.push(match[0]);
-        }
-        
-        lastIndex = regex.lastIndex;
-      }
-      
-      // Add remaining text
-      if (lastIndex < node.length) {
-        parts.push(node.slice(lastIndex));
-      }
-      
-      return parts.length > 1 ? <>{parts}</> : node;
-    }
-    
-    // Recursively process React elements
-    if (React.isValidElement(node)) {
-      const props = node.props as any;
-      const children = props?.children;
-      if (children !== undefined && children !== null) {
-        const processedChildren = React.Children.map(children, processNodeForCitations);
-        return React.cloneElement(node as any, { ...props, children: processedChildren });
-      }
+  // Citations are placed in the parsed markdown, so they never land inside
+  // code, math or link syntax
+  const remarkPlugins = useMemo(() => {
+    const plugins: PluggableList = [
+      remarkGfm,
+      [remarkMath, { singleDollarTextMath: false }],
+      [remarkCitations, { positions: orderedCitations.map((citation) => citation.position) }],
+    ];
+    if (grounding) {
+      plugins.push([remarkGrounding, { ranges: grounding.sentences.filter((sentence) => !sentence.cited) }]);
     }
-    
-    // Handle arrays
-    if (Array.isArray(node)) {
-      return node.map((item, idx) => (
-        <React.Fragment key={idx}>
-          {processNodeForCitations(item)}
-        </React.Fragment>
-      ));
-    }
-    
-    return node;
-  }, [citationMap]);
+    return plugins;
+  }, [orderedCitations, grounding]);
 
-  // Custom component to replace citation markers in text
   const customComponents = useMemo(() => ({
     a: ChatLink,
-    p: ({ children }: any) => {
-      return (
-        <p>
-          {React.Children.map(children, processNodeForCitations)}
-        </p>
-      );
-    },
-    h1: ({ children }: any) => {
-      return (
-        <h1>
-          {React.Children.map(children, processNodeForCitations)}
-        </h1>
-      );
-    },
-    h2: ({ children }: any) => {
-      return (
-        <h2>
-          {React.Children.map(children, processNodeForCitations)}
-        </h2>
-      );
-    },
-    h3: ({ children }: any) => {
-      return (
-        <h3>
-          {React.Children.map(children, processNodeForCitations)}
-        </h3>
-      );
-    },
-    h4: ({ children }: any) => {
-      return (
-        <h4>
-          {React.Children.map(children, processNodeForCitations)}
-        </h4>
-      );
-    },
-    h5: ({ children }: any) => {
-      return (
-        <h5>
-          {React.Children.map(children, processNodeForCitations)}
-        </h5>
-      );
-    },
-    h6: ({ children }: any) => {
-      return (
-        <h6>
-          {React.Children.map(children, processNodeForCitations)}
-        </h6>
-      );
-    },
-    blockquote: ({ children }: any) => {
-      return (
-        <blockquote>
-          {React.Children.map(children, processNodeForCitations)}
-        </blockquote>
-      );
-    },
-    li: ({ children }: any) => {
-      return (
-        <li>
-          {React.Children.map(children, processNodeForCitations)}
-        </li>
-      );
-    },
-    td: ({ children }: any) => {
-      return (
-        <td>
-          {React.Children.map(children, processNodeForCitations)}
-        </td>
-      );
-    },
-    th: ({ children }: any) => {
-      return (
-        <th>
-          {React.Children.map(children, processNodeForCitations)}
-        </th>
-      );
+    [CITATION_ELEMENT]: (props: Record<string, unknown>) => {
+      const index = Number(props[CITATION_INDEX_ATTRIBUTE]);
+      const citation = orderedCitations[index];
+      return citation ? <InlineCitation citationNumber={index + 1} citation={citation} /> : null;
     },
-    strong: ({ children }: any) => {
-      return (
-        <strong>
-          {React.Children.map(children, processNodeForCitations)}
-        </strong>
-      );
-    },
-    em: ({ children }: any) => {
-      return (
-        <em>
-          {React.Children.map(children, processNodeForCitations)}
-        </em>
-      );
-    },
-    code: ({ children, ...props }: any) => {
-      // Don't process citations in inline code - leave as raw text
-      return <code {...props}>{children}</code>;
-    },
-    pre: ({ children, ...props }: any) => {
-      // Don't process citations in code blocks - leave as raw text
-      return <pre {...props}>{children}</pre>;
-    },
-  }), [processNodeForCitations]);
+  }), [orderedCitations]);
 
   return (
     <div>
@@ -462,20 +342,73 @@ function ChatMessageBlock({
           <Typography sx={styles.name} color={role === 'error' ? 'error' : undefined}>
             {roleContent.name}
           </Typography>
-          <Typography
-            sx={styles.content}
-            data-testid="message-content"
-            color={role === 'error' ? 'error' : undefined}
-          >
-            {assistantResponseIsLoading ? <CircularProgress size={14} sx={{ mt: 0.5 }} /> : null}
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }]]}
-              rehypePlugins={[rehypeKatex]}
-              components={customComponents}
+          {editing && onEdit ? (
+            <EditMessageForm
+              initialContent={content}
+              onCancel={() => setEditing(false)}
+              onSubmit={(newContent) => {
+                setEditing(false);
+                onEdit(newContent);
+              }}
+            />
+          ) : (
+            <Typography
+              sx={styles.content}
+              data-testid="message-content"
+              color={role === 'error' ? 'error' : undefined}
             >
-              {contentWithMarkers}
-            </ReactMarkdown>
-          </Typography>
+              {assistantResponseIsLoading ? <CircularProgress size={14} sx={{ mt: 0.5 }} /> : null}
+              <ReactMarkdown
+                remarkPlugins={remarkPlugins}
+                rehypePlugins={[rehypeKatex]}
+                components={customComponents}
+              >
+                {content}
+              </ReactMarkdown>
+            </Typography>
+          )}
+          {role === 'error' && errorCode && (
+            <Typography component="span" sx={styles.errorGuidance}>
+              {ERROR_GUIDANCE[errorCode]}
+            </Typography>
+          )}
+          {role === 'error' && onRetry && (
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<ReplayIcon />}
+              sx={styles.retryButton}
+              onClick={onRetry}
+              disabled={actionsDisabled}
+            >
+              Retry
+            </Button>
+          )}
+          {!editing && <CitationSources sources={sources} />}
+          {stopped && (
+            <Typography component="span" sx={styles.stoppedLabel}>
+              Stopped
+            </Typography>
+          )}
+          {!stopped && interrupted && (
+            <Typography component="span" sx={styles.stoppedLabel}>
+              Interrupted by an error
+            </Typography>
+          )}
+          {!editing && (
+            <MessageActions
+              branch={branch}
+              grounding={canShowGrounding ? {
+                active: showGrounding,
+                citedCount: grounding?.citedCount ?? 0,
+                sentenceCount: grounding?.sentences.length ?? 0,
+                onToggle: () => setShowGrounding((current) => !current),
+              } : undefined}
+              disabled={actionsDisabled}
+              onRegenerate={onRegenerate}
+              onEdit={onEdit ? () => setEditing(true) : undefined}
+            />
+          )}
         </Box>
       </Box>
     </div>
@@ -0,0 +1,121 @@
+'use client';
+
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import InsertDriveFileOutlinedIcon from '@mui/icons-material/InsertDriveFileOutlined';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import ButtonBase from '@mui/material/ButtonBase';
+import Collapse from '@mui/material/Collapse';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import type { CitationSource } from '@/lib/citations';
+import { useDocumentViewer, useOpenReference } from '@/lib/DocumentViewerContext';
+
+interface CitationSourcesProps {
+  sources: CitationSource[];
+}
+
+const styles = {
+  root: {
+    mt: 1,
+  },
+  toggle: {
+    ml: -1,
+    color: 'text.secondary',
+    textTransform: 'none' as const,
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: 0.5,
+    mt: 0.5,
+  },
+  source: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'flex-start',
+    gap: 1,
+    width: '100%',
+    px: 1,
+    py: 0.75,
+    border: 1,
+    borderColor: 'divider',
+    borderRadius: 1,
+    textAlign: 'left' as const,
+    '&:hover': {
+      backgroundColor: 'action.hover',
+    },
+  },
+  sourceText: {
+    flex: 1,
+    minWidth: 0,
+  },
+  sourceName: {
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  sourceMeta: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+};
+
+function formatSourceMeta(source: CitationSource) {
+  const parts: string[] = [];
+  if (source.citationNumbers.length > 0) {
+    parts.push(source.citationNumbers.map((number) => `[${number}]`).join(''));
+  }
+  if (source.pages.length > 0) {
+    parts.push(`${source.pages.length === 1 ? 'Page' : 'Pages'} ${source.pages.join(', ')}`);
+  }
+  return parts.join(' · ');
+}
+
+// Lists each file cited by a message once. Fills in as citations stream in.
+export default function CitationSources({ sources }: CitationSourcesProps) {
+  const [open, setOpen] = useState(true);
+  const viewer = useDocumentViewer();
+  const openReference = useOpenReference();
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box sx={styles.root}>
+      <Button
+        size="small"
+        sx={styles.toggle}
+        endIcon={open ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        Sources ({sources.length})
+      </Button>
+      <Collapse in={open}>
+        <Box sx={styles.list}>
+          {sources.map((source) => (
+            <ButtonBase
+              key={source.file.id || source.file.name}
+              sx={styles.source}
+              onClick={() => openReference(source.reference)}
+              title={viewer ? `View ${source.file.name}` : `Download ${source.file.name}`}
+            >
+              <InsertDriveFileOutlinedIcon fontSize="small" color="action" />
+              <Box sx={styles.sourceText}>
+                <Typography sx={styles.sourceName}>{source.file.name}</Typography>
+                {formatSourceMeta(source) && (
+                  <Typography sx={styles.sourceMeta}>{formatSourceMeta(source)}</Typography>
+                )}
+              </Box>
+            </ButtonBase>
+          ))}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Input from '@mui/material/Input';
+import { useState } from 'react';
+
+interface EditMessageFormProps {
+  initialContent: string;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+}
+
+const styles = {
+  input: {
+    backgroundColor: 'background.surface',
+    borderRadius: 1,
+    px: 1,
+    py: 0.5,
+    color: 'text.primary',
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: 1,
+    mt: 1,
+  },
+};
+
+export default function EditMessageForm({ initialContent, onSubmit, onCancel }: EditMessageFormProps) {
+  const [content, setContent] = useState(initialContent);
+  const canSubmit = content.trim().length > 0 && content.trim() !== initialContent.trim();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmit) {
+      onSubmit(content.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Input
+        value={content}
+        onChange={(event) => setContent(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') onCancel();
+        }}
+        multiline
+        fullWidth
+        autoFocus
+        disableUnderline
+        sx={styles.input}
+      />
+      <Box sx={styles.actions}>
+        <Button size="small" color="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="small" variant="contained" type="submit" disabled={!canSubmit} disableElevation>
+          Send
+        </Button>
+      </Box>
+    </form>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import FactCheckOutlinedIcon from '@mui/icons-material/FactCheckOutlined';
+import ReplayIcon from '@mui/icons-material/Replay';
+import Box from '@mui/material/Box';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+
+export interface MessageBranch {
+  index: number;
+  count: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+// Toggles highlighting of sentences that have no citation
+export interface MessageGrounding {
+  active: boolean;
+  citedCount: number;
+  sentenceCount: number;
+  onToggle: () => void;
+}
+
+interface MessageActionsProps {
+  branch?: MessageBranch;
+  grounding?: MessageGrounding;
+  disabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: () => void;
+}
+
+const styles = {
+  root: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 0.5,
+    mt: 0.5,
+    ml: -1,
+    color: 'text.secondary',
+  },
+  groundingScore: {
+    fontSize: '0.75rem',
+  },
+  branchLabel: {
+    fontSize: '0.75rem',
+    minWidth: 28,
+    textAlign: 'center' as const,
+  },
+};
+
+export default function MessageActions({
+  branch,
+  grounding,
+  disabled = false,
+  onRegenerate,
+  onEdit,
+}: MessageActionsProps) {
+  const hasBranches = !!branch && branch.count > 1;
+
+  if (!hasBranches && !grounding && !onRegenerate && !onEdit) {
+    return null;
+  }
+
+  return (
+    <Box sx={styles.root}>
+      {hasBranches && (
+        <>
+          <IconButton
+            size="small"
+            onClick={branch.onPrevious}
+            disabled={disabled || branch.index === 0}
+            aria-label="Previous version"
+          >
+            <ChevronLeftIcon fontSize="small" />
+          </IconButton>
+          <Typography sx={styles.branchLabel}>
+            {branch.index + 1}/{branch.count}
+          </Typography>
+          <IconButton
+            size="small"
+            onClick={branch.onNext}
+            disabled={disabled || branch.index === branch.count - 1}
+            aria-label="Next version"
+          >
+            <ChevronRightIcon fontSize="small" />
+          </IconButton>
+        </>
+      )}
+      {onEdit && (
+        <Tooltip title="Edit">
+          <span>
+            <IconButton size="small" onClick={onEdit} disabled={disabled} aria-label="Edit message">
+              <EditOutlinedIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      )}
+      {grounding && (
+        <>
+          <Tooltip title={grounding.active ? 'Hide grounding' : 'Show uncited sentences'}>
+            <IconButton
+              size="small"
+              onClick={grounding.onToggle}
+              color={grounding.active ? 'primary' : 'default'}
+              aria-pressed={grounding.active}
+              aria-label="Grounding view"
+            >
+              <FactCheckOutlinedIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          {grounding.active && grounding.sentenceCount > 0 && (
+            <Tooltip title={`${grounding.citedCount} of ${grounding.sentenceCount} sentences cited`}>
+              <Typography sx={styles.groundingScore}>
+                {Math.round((grounding.citedCount / grounding.sentenceCount) * 100)}% cited
+              </Typography>
+            </Tooltip>
+          )}
+        </>
+      )}
+      {onRegenerate && (
+        <Tooltip title="Regenerate">
+          <span>
+            <IconButton size="small" onClick={onRegenerate} disabled={disabled} aria-label="Regenerate response">
+              <ReplayIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import DriveFileRenameOutlineIcon from '@mui/icons-material/DriveFileRenameOutline';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import Box from '@mui/material/Box';
+import IconButton from '@mui/material/IconButton';
+import Input from '@mui/material/Input';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import Typography from '@mui/material/Typography';
+import { useState } from 'react';
+import type { AssistantConversationSummary } from '@/lib/types';
+
+interface ConversationItemProps {
+  conversation: AssistantConversationSummary;
+  active: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePinned: () => void;
+  onDelete: () => void;
+}
+
+const styles = {
+  root: (active: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: 0.5,
+    pl: 1.5,
+    pr: 0.5,
+    py: 0.75,
+    borderRadius: 1,
+    cursor: 'pointer',
+    backgroundColor: active ? 'background.surface' : 'transparent',
+    '&:hover': {
+      backgroundColor: 'background.surface',
+    },
+  }),
+  text: {
+    flex: 1,
+    minWidth: 0,
+  },
+  title: {
+    fontSize: '0.875rem',
+    color: 'text.primary',
+  },
+  date: {
+    fontSize: '0.75rem',
+    color: 'text.secondary',
+  },
+  pinIcon: {
+    fontSize: '0.875rem',
+    color: 'text.secondary',
+  },
+  renameInput: {
+    fontSize: '0.875rem',
+    color: 'text.primary',
+  },
+};
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString();
+}
+
+export default function ConversationItem({
+  conversation,
+  active,
+  onSelect,
+  onRename,
+  onTogglePinned,
+  onDelete,
+}: ConversationItemProps) {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const displayTitle = conversation.title || 'New conversation';
+
+  const handleMenuClick = (event: React.MouseEvent<HTMLElement>) => {
+    event.stopPropagation();
+    setAnchorEl(event.currentTarget);
+  };
+
+  const handleMenuClose = () => {
+    setAnchorEl(null);
+  };
+
+  const startRename = () => {
+    setTitle(conversation.title);
+    setRenaming(true);
+    setAnchorEl(null);
+  };
+
+  const submitRename = () => {
+    setRenaming(false);
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== conversation.title) {
+      onRename(trimmed);
+    }
+  };
+
+  return (
+    <Box sx={styles.root(active)} onClick={renaming ? undefined : onSelect}>
+      <Box sx={styles.text}>
+        {renaming ? (
+          <Input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            onBlur={submitRename}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') submitRename();
+              if (event.key === 'Escape') setRenaming(false);
+            }}
+            autoFocus
+            fullWidth
+            sx={styles.renameInput}
+            inputProps={{ 'aria-label': 'Conversation title', maxLength: 200 }}
+          />
+        ) : (
+          <Typography noWrap sx={styles.title}>
+            {displayTitle}
+          </Typography>
+        )}
+        <Typography noWrap sx={styles.date}>
+          {formatDate(conversation.updated_on)}
+        </Typography>
+      </Box>
+      {conversation.pinned && <PushPinIcon sx={styles.pinIcon} />}
+      <IconButton size="small" onClick={handleMenuClick} aria-label="Conversation actions">
+        <MoreVertIcon fontSize="small" />
+      </IconButton>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleMenuClose}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <MenuItem onClick={startRename}>
+          <DriveFileRenameOutlineIcon sx={{ mr: 1 }} fontSize="small" />
+          Rename
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            onTogglePinned();
+          }}
+        >
+          {conversation.pinned ? (
+            <PushPinIcon sx={{ mr: 1 }} fontSize="small" />
+          ) : (
+            <PushPinOutlinedIcon sx={{ mr: 1 }} fontSize="small" />
+          )}
+          {conversation.pinned ? 'Unpin' : 'Pin'}
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            onDelete();
+          }}
+          sx={{ color: 'error.main' }}
+        >
+          <DeleteOutlineIcon sx={{ mr: 1 }} fontSize="small" />
+          Delete
+        </MenuItem>
+      </Menu>
+    </Box>
+  );
+}
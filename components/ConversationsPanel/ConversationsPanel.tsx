@@ -0,0 +1,138 @@
+'use client';
+
+import AddIcon from '@mui/icons-material/Add';
+import SearchIcon from '@mui/icons-material/Search';
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import IconButton from '@mui/material/IconButton';
+import Input from '@mui/material/Input';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useEffect, useState } from 'react';
+import { useConversations } from '@/hooks/useConversations';
+import { useChatContext } from '@/lib/ChatContext';
+import { DRAWER_PANEL_HEADER_HEIGHT } from '@/lib/constants';
+import ConversationItem from './ConversationItem';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const styles = {
+  root: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    height: '100%',
+    overflow: 'hidden',
+    px: 1.5,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: DRAWER_PANEL_HEADER_HEIGHT,
+    pl: 1.5,
+  },
+  search: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    backgroundColor: 'background.surface',
+    borderRadius: 1,
+    px: 1,
+    py: 0.5,
+    mb: 1,
+  },
+  list: {
+    flex: 1,
+    overflowY: 'auto' as const,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: 0.5,
+    pb: 2,
+  },
+  empty: {
+    fontSize: '0.875rem',
+    color: 'text.secondary',
+    textAlign: 'center' as const,
+    mt: 2,
+  },
+};
+
+export default function ConversationsPanel() {
+  const { conversationId, loadConversation, clearChat } = useChatContext();
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const {
+    conversations,
+    isLoading,
+    renameConversation,
+    setPinned,
+    deleteConversation,
+  } = useConversations(query);
+
+  const handleDelete = async (id: string) => {
+    if (id === conversationId) {
+      clearChat();
+    }
+    await deleteConversation(id);
+  };
+
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.header}>
+        <Box component="span" sx={{ fontWeight: 600, fontSize: '1rem' }}>
+          Chats
+        </Box>
+        <Tooltip title="New chat">
+          <IconButton size="small" onClick={clearChat} aria-label="New chat">
+            <AddIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Box sx={styles.search}>
+        <SearchIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+        <Input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search chats"
+          disableUnderline
+          fullWidth
+          sx={{ fontSize: '0.875rem', color: 'text.primary' }}
+          inputProps={{ 'aria-label': 'Search chats' }}
+        />
+      </Box>
+      <Box sx={styles.list}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : conversations.length === 0 ? (
+          <Typography sx={styles.empty}>
+            {query ? 'No matching chats' : 'No chats yet'}
+          </Typography>
+        ) : (
+          conversations.map((conversation) => (
+            <ConversationItem
+              key={conversation.id}
+              conversation={conversation}
+              active={conversation.id === conversationId}
+              onSelect={() => {
+                if (conversation.id !== conversationId) {
+                  loadConversation(conversation.id);
+                }
+              }}
+              onRename={(title) => renameConversation(conversation.id, title)}
+              onTogglePinned={() => setPinned(conversation.id, !conversation.pinned)}
+              onDelete={() => handleDelete(conversation.id)}
+            />
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DownloadOutlinedIcon from '@mui/icons-material/DownloadOutlined';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { getFileDownloadUrl, getFilePreviewType } from '@/lib/files';
+import type { ViewedDocument } from '@/lib/DocumentViewerContext';
+import PdfDocument from './PdfDocument';
+import TextDocument from './TextDocument';
+
+interface DocumentViewerProps {
+  document: ViewedDocument;
+  onClose: () => void;
+}
+
+const styles = {
+  root: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    height: '100%',
+    overflow: 'hidden',
+    p: 2,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    mb: 1,
+  },
+  name: {
+    flex: 1,
+    fontWeight: '600',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  body: {
+    flex: 1,
+    minHeight: 0,
+  },
+  unsupported: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 1,
+    height: '100%',
+    textAlign: 'center' as const,
+  },
+};
+
+export default function DocumentViewer({ document, onClose }: DocumentViewerProps) {
+  const { file, page, highlight } = document;
+  const previewType = getFilePreviewType(file.name);
+  const url = getFileDownloadUrl(file.id, { inline: true });
+  const downloadUrl = getFileDownloadUrl(file.id);
+
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.header}>
+        <Tooltip title="Back to files">
+          <IconButton size="small" onClick={onClose} aria-label="Back to files">
+            <ArrowBackIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={file.name}>
+          <Typography noWrap sx={styles.name}>
+            {file.name}
+          </Typography>
+        </Tooltip>
+        <Tooltip title="Download">
+          <IconButton size="small" component="a" href={downloadUrl} download={file.name} aria-label="Download">
+            <DownloadOutlinedIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Box sx={styles.body}>
+        {previewType === 'pdf' ? (
+          // Keyed so switching files starts from a clean viewer
+          <PdfDocument key={file.id} url={url} page={page} highlight={highlight} />
+        ) : previewType === 'text' ? (
+          <TextDocument key={file.id} url={url} highlight={highlight} />
+        ) : (
+          <Box sx={styles.unsupported}>
+            <Typography color="text.secondary" variant="body2">
+              This file type can&apos;t be previewed.
+            </Typography>
+            <Button size="small" href={downloadUrl} download={file.name} startIcon={<DownloadOutlinedIcon />}>
+              Download
+            </Button>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
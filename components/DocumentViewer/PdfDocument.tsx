@@ -0,0 +1,262 @@
+'use client';
+
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useEffect, useRef, useState } from 'react';
+import { findHighlightRange, getPartsInRange } from '@/lib/highlight';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+interface PdfDocumentProps {
+  url: string;
+  page: number | null;
+  highlight: string | null;
+}
+
+const HIGHLIGHT_CLASS = 'citation-highlight';
+
+const styles = {
+  root: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    height: '100%',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 1,
+    pb: 1,
+  },
+  scroller: {
+    flex: 1,
+    overflowY: 'auto' as const,
+  },
+  page: {
+    position: 'relative' as const,
+    border: 1,
+    borderColor: 'divider',
+    backgroundColor: 'white',
+    canvas: {
+      display: 'block',
+    },
+    // Transparent text runs laid over the canvas, as in pdf.js's own viewer
+    '.textLayer': {
+      position: 'absolute',
+      inset: 0,
+      overflow: 'clip',
+      lineHeight: 1,
+      textAlign: 'initial',
+      transformOrigin: '0 0',
+    },
+    '.textLayer span, .textLayer br': {
+      color: 'transparent',
+      position: 'absolute',
+      whiteSpace: 'pre',
+      cursor: 'text',
+      transformOrigin: '0% 0%',
+    },
+    '.textLayer span.markedContent': {
+      top: 0,
+      height: 0,
+    },
+    [`.textLayer .${HIGHLIGHT_CLASS}`]: {
+      backgroundColor: 'rgba(255, 213, 0, 0.45)',
+      borderRadius: '2px',
+    },
+  },
+  status: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: '100%',
+  },
+};
+
+// pdf.js is only loaded in the browser, the first time a PDF is opened
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+function loadPdfJs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then((pdfjs) => {
+      // Created here so webpack bundles the worker as a module worker
+      pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+        new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url),
+        { type: 'module' }
+      );
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+// Renders one page at a time, starting at the cited page with the cited
+// passage marked in the page's text layer
+export default function PdfDocument({ url, page, highlight }: PdfDocumentProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(page ?? 1);
+  const [width, setWidth] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the document; pdf.js fetches it in ranges through the download proxy
+  useEffect(() => {
+    let cancelled = false;
+    let destroy: (() => void) | null = null;
+    setPdf(null);
+    setError(null);
+
+    loadPdfJs()
+      .then((pdfjs) => {
+        if (cancelled) return null;
+        const task = pdfjs.getDocument({ url });
+        destroy = () => task.destroy();
+        return task.promise;
+      })
+      .then((loaded) => {
+        if (!cancelled && loaded) setPdf(loaded);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.error('Error loading PDF:', loadError);
+        setError('Failed to load PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (pdf) {
+      setPageNumber(Math.min(Math.max(page ?? 1, 1), pdf.numPages));
+    }
+  }, [pdf, page]);
+
+  // Pages are drawn at the pane's width, so redraw when it's resized
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [pdf]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = textLayerRef.current;
+    if (!pdf || !canvas || !container || width === 0) return;
+
+    let cancelled = false;
+    const cleanups: Array<() => void> = [];
+
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      const pdfPage = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+
+      const scale = width / pdfPage.getViewport({ scale: 1 }).width;
+      const viewport = pdfPage.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      const renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      cleanups.push(() => renderTask.cancel());
+
+      container.replaceChildren();
+      container.style.setProperty('--scale-factor', String(scale));
+      const textLayer = new pdfjs.TextLayer({
+        textContentSource: pdfPage.streamTextContent(),
+        container,
+        viewport,
+      });
+      cleanups.push(() => textLayer.cancel());
+
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (cancelled || pageNumber !== (page ?? 1)) return;
+
+      // The highlight belongs to the cited page only
+      const parts = textLayer.textContentItemsStr;
+      const range = findHighlightRange(parts.join(''), highlight);
+      if (!range) return;
+
+      const marked = getPartsInRange(parts, range).map((index) => textLayer.textDivs[index]);
+      marked.forEach((div) => div.classList.add(HIGHLIGHT_CLASS));
+      marked[0]?.scrollIntoView({ block: 'center' });
+    })().catch((renderError) => {
+      // Cancelled renders reject when the page changes mid-render
+      if (!cancelled) console.error('Error rendering PDF page:', renderError);
+    });
+
+    return () => {
+      cancelled = true;
+      cleanups.forEach((cleanup) => cleanup());
+    };
+  }, [pdf, pageNumber, width, page, highlight]);
+
+  if (error) {
+    return (
+      <Box sx={styles.status}>
+        <Typography color="error" variant="body2">{error}</Typography>
+      </Box>
+    );
+  }
+
+  if (!pdf) {
+    return (
+      <Box sx={styles.status}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={styles.root}>
+      <Box sx={styles.toolbar}>
+        <IconButton
+          size="small"
+          onClick={() => setPageNumber((current) => current - 1)}
+          disabled={pageNumber <= 1}
+          aria-label="Previous page"
+        >
+          <ChevronLeftIcon fontSize="small" />
+        </IconButton>
+        <Typography variant="body2" color="text.secondary">
+          Page {pageNumber} of {pdf.numPages}
+        </Typography>
+        <IconButton
+          size="small"
+          onClick={() => setPageNumber((current) => current + 1)}
+          disabled={pageNumber >= pdf.numPages}
+          aria-label="Next page"
+        >
+          <ChevronRightIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box ref={scrollerRef} sx={styles.scroller}>
+        <Box sx={styles.page}>
+          <canvas ref={canvasRef} />
+          <div ref={textLayerRef} className="textLayer" />
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import Typography from '@mui/material/Typography';
+import { useQuery } from '@tanstack/react-query';
+import { useEffect, useMemo, useRef } from 'react';
+import { findHighlightRange } from '@/lib/highlight';
+
+interface TextDocumentProps {
+  url: string;
+  highlight: string | null;
+}
+
+const styles = {
+  root: {
+    height: '100%',
+    overflowY: 'auto' as const,
+  },
+  text: {
+    m: 0,
+    whiteSpace: 'pre-wrap' as const,
+    overflowWrap: 'anywhere' as const,
+    fontFamily: 'monospace',
+    fontSize: '0.8125rem',
+    lineHeight: 1.6,
+    mark: {
+      backgroundColor: 'rgba(255, 213, 0, 0.45)',
+      color: 'inherit',
+      borderRadius: '2px',
+    },
+  },
+  status: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: '100%',
+  },
+};
+
+async function fetchText(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to load file');
+  }
+  return response.text();
+}
+
+// Shows text and markdown files as their source text, so the cited passage
+// can be marked exactly where it occurs
+export default function TextDocument({ url, highlight }: TextDocumentProps) {
+  const markRef = useRef<HTMLElement>(null);
+  const { data: text, isLoading, error } = useQuery({
+    queryKey: ['document-text', url],
+    queryFn: () => fetchText(url),
+  });
+
+  const range = useMemo(
+    () => (text ? findHighlightRange(text, highlight) : null),
+    [text, highlight]
+  );
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [range]);
+
+  if (isLoading) {
+    return (
+      <Box sx={styles.status}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error || text === undefined) {
+    return (
+      <Box sx={styles.status}>
+        <Typography color="error" variant="body2">
+          {error instanceof Error ? error.message : 'Failed to load file'}
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={styles.root}>
+      <Box component="pre" sx={styles.text}>
+        {range ? (
+          <>
+            {text.slice(0, range.start)}
+            <mark ref={markRef}>{text.slice(range.start, range.end)}</mark>
+            {text.slice(range.end)}
+          </>
+        ) : text}
+      </Box>
+    </Box>
+  );
+}
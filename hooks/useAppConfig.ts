@@ -0,0 +1,30 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { ChatSettings } from '@/lib/chatSettings';
+
+export type AppConfig = {
+  models: string[];
+  defaultModel: string;
+  chatDefaults: ChatSettings; // Operator defaults for the chat tuning settings
+  fileUpload: boolean; // Uploading from the Files panel is enabled
+  sharing: boolean; // Shared links have durable storage, so the Share button is shown
+  operatorSignIn: boolean; // An operator token is configured
+  isOperator: boolean; // This browser is signed in as an operator
+};
+
+async function fetchConfig(): Promise<AppConfig> {
+  const response = await fetch('/api/config');
+  if (!response.ok) {
+    throw new Error('Failed to fetch app config');
+  }
+  return response.json();
+}
+
+export function useAppConfig() {
+  return useQuery({
+    queryKey: ['config'],
+    queryFn: fetchConfig,
+    staleTime: Infinity,
+  });
+}
@@ -1,35 +1,229 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { fetchEventSource } from '@microsoft/fetch-event-source';
+import { useQueryClient } from '@tanstack/react-query';
+import { EMPTY_SCOPE, isEmptyScope } from '@/lib/chatScope';
+import type { ChatSettings } from '@/lib/chatSettings';
+import { getLatestLeaf, getThread } from '@/lib/chatTree';
+import { getClientConversationStore } from '@/lib/conversations/client';
+import { type AppErrorCode, isTransientErrorCode } from '@/lib/errorCodes';
+import type { ConversationExport } from '@/lib/exportConversation';
+import { getSearchParam, setSearchParam } from '@/lib/url';
 import type {
   AssistantChatMessage,
+  AssistantChatMessageCitation,
   AssistantChatMessageResponse,
+  AssistantChatScope,
   AssistantChatSession,
 } from '@/lib/types';
 
-export function useChat() {
+const CONVERSATION_PARAM = 'conversation';
+
+type ConversationHandle = { id: string | null };
+
+// Applies a change to one message, leaving the rest of the tree untouched
+function updateMessage(
+  session: AssistantChatSession,
+  id: string,
+  update: (message: AssistantChatMessage) => AssistantChatMessage
+): AssistantChatSession {
+  return {
+    ...session,
+    messages: session.messages.map((message) => (message.id === id ? update(message) : message)),
+  };
+}
+
+// Drops a reply that never received content and moves the leaf back to its question
+function removeEmptyReply(session: AssistantChatSession, id: string): AssistantChatSession {
+  const reply = session.messages.find((message) => message.id === id);
+  if (!reply || reply.content !== '') return session;
+
+  return {
+    ...session,
+    messages: session.messages.filter((message) => message.id !== id),
+    currentLeafId: session.currentLeafId === id ? reply.parent_id : session.currentLeafId,
+  };
+}
+
+type UseChatOptions = {
+  model?: string | null;
+  settings?: ChatSettings;
+};
+
+export function useChat({ model, settings }: UseChatOptions = {}) {
   const [chat, setChat] = useState<AssistantChatSession>({
     messages: [],
+    currentLeafId: null,
     loading: false,
   });
 
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [scope, setScopeState] = useState<AssistantChatScope>(EMPTY_SCOPE);
+  // Read when a conversation is first saved, so a scope picked beforehand is kept
+  const scopeRef = useRef<AssistantChatScope>(EMPTY_SCOPE);
+
+  const queryClient = useQueryClient();
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Saves the partial reply of the in-flight stream when generation is stopped
+  const stopStreamRef = useRef<(() => void) | null>(null);
+  // Saves capture the handle of the conversation they belong to, so a reply that
+  // finishes after switching conversations is still stored in the right one
+  const conversationRef = useRef<ConversationHandle>({ id: null });
+  // Saves run one at a time so the assistant reply is never stored before its question
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || chat.loading) return;
+  const refreshConversationList = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['conversations'] });
+  }, [queryClient]);
 
-    const userMessage: AssistantChatMessage = {
-      role: 'user',
-      content: content.trim(),
+  const activateConversation = useCallback((id: string | null) => {
+    conversationRef.current = { id };
+    setConversationId(id);
+    setSearchParam(CONVERSATION_PARAM, id);
+  }, []);
+
+  const persistMessages = useCallback((messages: AssistantChatMessage[]) => {
+    const handle = conversationRef.current;
+    persistQueueRef.current = persistQueueRef.current.then(async () => {
+      const conversationStore = getClientConversationStore();
+      try {
+        if (handle.id) {
+          const updated = await conversationStore.append(handle.id, messages);
+          if (updated) return;
+        }
+        // No conversation yet (or it no longer exists), so start a new one
+        const conversation = await conversationStore.create(messages);
+        if (!isEmptyScope(scopeRef.current)) {
+          await conversationStore.update(conversation.id, { scope: scopeRef.current });
+        }
+        handle.id = conversation.id;
+        if (conversationRef.current === handle) {
+          setConversationId(conversation.id);
+          setSearchParam(CONVERSATION_PARAM, conversation.id);
+        }
+      } catch (error) {
+        console.error('Error saving conversation:', error);
+      } finally {
+        refreshConversationList();
+      }
+    });
+  }, [refreshConversationList]);
+
+  const persistLeaf = useCallback((leafId: string) => {
+    const handle = conversationRef.current;
+    persistQueueRef.current = persistQueueRef.current.then(async () => {
+      if (!handle.id) return;
+      try {
+        await getClientConversationStore().update(handle.id, { current_leaf_id: leafId });
+      } catch (error) {
+        console.error('Error saving conversation:', error);
+      }
+    });
+  }, []);
+
+  const applyScope = useCallback((next: AssistantChatScope) => {
+    scopeRef.current = next;
+    setScopeState(next);
+  }, []);
+
+  // Changes which documents later questions can draw on, saving it with the conversation
+  const setScope = useCallback((next: AssistantChatScope) => {
+    applyScope(next);
+    const handle = conversationRef.current;
+    persistQueueRef.current = persistQueueRef.current.then(async () => {
+      if (!handle.id) return;
+      try {
+        await getClientConversationStore().update(handle.id, { scope: next });
+      } catch (error) {
+        console.error('Error saving conversation:', error);
+      }
+    });
+  }, [applyScope]);
+
+  // Cancels the in-flight stream, keeping its partial reply as stopped
+  const stopGeneration = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+
+    stopStreamRef.current?.();
+    stopStreamRef.current = null;
+  }, []);
+
+  const loadConversation = useCallback(async (id: string) => {
+    stopGeneration();
+    activateConversation(id);
+    applyScope(EMPTY_SCOPE);
+    setChat({
+      messages: [],
+      currentLeafId: null,
+      loading: false,
+    });
+
+    try {
+      const conversation = await getClientConversationStore().get(id);
+      // Ignore the result if the user switched again while it was loading
+      if (conversationRef.current.id !== id) return;
+      if (!conversation) {
+        activateConversation(null);
+        return;
+      }
+      setChat({
+        messages: conversation.messages,
+        currentLeafId: conversation.current_leaf_id,
+        loading: false,
+      });
+      applyScope(conversation.scope ?? EMPTY_SCOPE);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    }
+  }, [activateConversation, applyScope, stopGeneration]);
+
+  // Saves an exported conversation as a new conversation and opens it
+  const importConversation = useCallback(async (data: ConversationExport) => {
+    const conversationStore = getClientConversationStore();
+    const conversation = await conversationStore.create(data.messages);
+    await conversationStore.update(conversation.id, {
+      title: data.title,
+      current_leaf_id: data.current_leaf_id,
+    });
+    refreshConversationList();
+    await loadConversation(conversation.id);
+  }, [loadConversation, refreshConversationList]);
+
+  // Restore the conversation referenced in the URL
+  useEffect(() => {
+    const id = getSearchParam(CONVERSATION_PARAM);
+    if (id) {
+      loadConversation(id);
+    }
+    // Only on mount; later switches go through loadConversation directly
+  }, []);
+
+  // Streams an assistant reply to `question`, which is the last entry of `history`.
+  // New questions (sent or edited) are added to the tree alongside the reply.
+  const streamReply = useCallback(async (
+    question: AssistantChatMessage,
+    history: AssistantChatMessage[],
+    isNewQuestion: boolean
+  ) => {
+    const reply: AssistantChatMessage = {
+      id: crypto.randomUUID(),
+      parent_id: question.id,
+      role: 'assistant',
+      content: '',
     };
 
-    // Add user message and create empty assistant message
+    // Add the question (if new) and an empty assistant message for the reply
     setChat((prev) => ({
       ...prev,
-      messages: [...prev.messages, userMessage, { role: 'assistant', content: '' }],
+      messages: [...prev.messages, ...(isNewQuestion ? [question] : []), reply],
+      currentLeafId: reply.id,
       loading: true,
       error: null,
+      errorCode: null,
+      errorRetryable: false,
     }));
 
     // Abort any existing stream
@@ -40,16 +234,66 @@ export function useChat() {
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    try {
-      let currentContent = '';
+    if (isNewQuestion) {
+      persistMessages([question]);
+    }
+
+    let currentContent = '';
+    const currentCitations: AssistantChatMessageCitation[] = [];
+    let assistantMessagePersisted = false;
+    let streamOpened = false;
+    let streamFinished = false;
 
+    // Save the assistant reply once, whether the stream ends cleanly, closes or
+    // is stopped. A reply that didn't finish is saved with what ended it.
+    const persistAssistantMessage = (ending: Pick<AssistantChatMessage, 'stopped' | 'interrupted'> = {}) => {
+      if (assistantMessagePersisted || !currentContent) return;
+      assistantMessagePersisted = true;
+      persistMessages([{
+        ...reply,
+        content: currentContent,
+        ...(currentCitations.length > 0 ? { citations: [...currentCitations] } : {}),
+        ...ending,
+      }]);
+    };
+
+    // Keeps any partial answer, marked as interrupted. Retrying is offered for
+    // transient errors and for streams that broke off without saying why.
+    const failReply = (error: string, code?: AppErrorCode) => {
+      persistAssistantMessage({ interrupted: true });
+      setChat((prev) => ({
+        ...(currentContent
+          ? updateMessage(prev, reply.id, (message) => ({ ...message, interrupted: true }))
+          : removeEmptyReply(prev, reply.id)),
+        loading: false,
+        error,
+        errorCode: code ?? null,
+        errorRetryable: code ? isTransientErrorCode(code) : streamOpened,
+      }));
+    };
+
+    stopStreamRef.current = () => {
+      persistAssistantMessage({ stopped: true });
+      // Keep the partial answer and its citations, marked as stopped
+      setChat((prev) => ({
+        ...(currentContent
+          ? updateMessage(prev, reply.id, (message) => ({ ...message, stopped: true }))
+          : removeEmptyReply(prev, reply.id)),
+        loading: false,
+      }));
+    };
+
+    try {
       await fetchEventSource('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [...chat.messages, userMessage],
+          messages: history,
+          model: model ?? undefined,
+          scope: isEmptyScope(scopeRef.current) ? undefined : scopeRef.current,
+          settings: settings && Object.keys(settings).length > 0 ? settings : undefined,
         }),
         signal: abortController.signal,
         onmessage(event) {
@@ -64,74 +308,38 @@ export function useChat() {
               case 'content_chunk':
                 if (data.delta?.content) {
                   currentContent += data.delta.content;
-                  setChat((prev) => {
-                    const newMessages = [...prev.messages];
-                    // Find the last assistant message (should be the empty one we added)
-                    const lastIndex = newMessages.length - 1;
-                    const assistantMessage = newMessages[lastIndex];
-                    if (assistantMessage && assistantMessage.role === 'assistant') {
-                      newMessages[lastIndex] = {
-                        ...assistantMessage,
-                        content: currentContent,
-                      };
-                    }
-                    return {
-                      ...prev,
-                      messages: newMessages,
-                    };
-                  });
+                  setChat((prev) => updateMessage(prev, reply.id, (message) => ({
+                    ...message,
+                    content: currentContent,
+                  })));
                 }
                 break;
 
               case 'citation':
-                // Handle citations if needed
-                setChat((prev) => {
-                  const newMessages = [...prev.messages];
-                  const lastIndex = newMessages.length - 1;
-                  const assistantMessage = newMessages[lastIndex];
-                  if (assistantMessage && assistantMessage.role === 'assistant') {
-                    if (!assistantMessage.citations) {
-                      assistantMessage.citations = [];
-                    }
-                    // Deduplicate citations by position to avoid adding the same citation twice
-                    const existingCitation = assistantMessage.citations.find(
-                      (c) => c.position === data.citation.position
-                    );
-                    if (!existingCitation) {
-                      assistantMessage.citations.push(data.citation);
-                    }
-                    newMessages[lastIndex] = { ...assistantMessage };
-                  }
-                  return {
-                    ...prev,
-                    messages: newMessages,
-                  };
-                });
+                // Deduplicate citations by position to avoid adding the same citation twice
+                if (!currentCitations.some((c) => c.position === data.citation.position)) {
+                  currentCitations.push(data.citation);
+                  setChat((prev) => updateMessage(prev, reply.id, (message) => ({
+                    ...message,
+                    citations: [...currentCitations],
+                  })));
+                }
                 break;
 
               case 'message_end':
+                streamFinished = true;
+                persistAssistantMessage();
                 setChat((prev) => ({
                   ...prev,
                   loading: false,
                   error: null, // Clear any previous errors on successful completion
+                  errorCode: null,
+                  errorRetryable: false,
                 }));
                 break;
 
               case 'error':
-                setChat((prev) => {
-                  const newMessages = [...prev.messages];
-                  // Remove the empty assistant message that was added at the start
-                  const lastIndex = newMessages.length - 1;
-                  if (newMessages[lastIndex]?.role === 'assistant' && newMessages[lastIndex]?.content === '') {
-                    newMessages.pop();
-                  }
-                  return {
-                    ...prev,
-                    messages: newMessages,
-                    loading: false,
-                    error: data.message || 'An error occurred',
-                  };
-                });
+                failReply(data.message || 'An error occurred', data.code);
                 break;
             }
           } catch (error) {
@@ -141,29 +349,24 @@ export function useChat() {
         onopen: async (res) => {
           // Validate response status
           if (!res.ok || res.status !== 200) {
-            throw new Error(`HTTP error! status: ${res.status}`);
+            // Surface validation errors (e.g. unknown model) returned as JSON
+            const errorData = await res.json().catch(() => ({}));
+            throw Object.assign(
+              new Error(errorData.error || `HTTP error! status: ${res.status}`),
+              { code: errorData.code as AppErrorCode | undefined }
+            );
           }
+          streamOpened = true;
         },
         onerror(error) {
           console.error('SSE error:', error);
-          setChat((prev) => {
-            const newMessages = [...prev.messages];
-            // Remove the empty assistant message that was added at the start
-            const lastIndex = newMessages.length - 1;
-            if (newMessages[lastIndex]?.role === 'assistant' && newMessages[lastIndex]?.content === '') {
-              newMessages.pop();
-            }
-            return {
-              ...prev,
-              messages: newMessages,
-              loading: false,
-              error: error.message || 'Failed to fetch response',
-            };
-          });
+          failReply(error.message || 'Failed to fetch response', error.code);
           // Don't retry on error
           throw error;
         },
         onclose() {
+          // Closing before message_end means the answer was cut short
+          persistAssistantMessage(streamFinished ? {} : { interrupted: true });
           setChat((prev) => ({
             ...prev,
             loading: false,
@@ -176,36 +379,111 @@ export function useChat() {
         return;
       }
       console.error('Error sending message:', error);
-      setChat((prev) => {
-        const newMessages = [...prev.messages];
-        // Remove the empty assistant message that was added at the start
-        const lastIndex = newMessages.length - 1;
-        if (newMessages[lastIndex]?.role === 'assistant' && newMessages[lastIndex]?.content === '') {
-          newMessages.pop();
-        }
-        return {
-          ...prev,
-          messages: newMessages,
-          loading: false,
-          error: error.message || 'Failed to send message',
-        };
-      });
+      failReply(error.message || 'Failed to send message', error.code);
     }
-  }, [chat.messages, chat.loading]);
+  }, [model, settings, persistMessages]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!content.trim() || chat.loading) return;
+
+    const question: AssistantChatMessage = {
+      id: crypto.randomUUID(),
+      parent_id: chat.currentLeafId,
+      role: 'user',
+      content: content.trim(),
+    };
+
+    await streamReply(
+      question,
+      [...getThread(chat.messages, chat.currentLeafId), question],
+      true
+    );
+  }, [chat.messages, chat.currentLeafId, chat.loading, streamReply]);
 
+  // Asks for another answer to the question behind an assistant message
+  const regenerate = useCallback(async (messageId: string) => {
+    if (chat.loading) return;
+
+    const message = chat.messages.find((candidate) => candidate.id === messageId);
+    const question = chat.messages.find((candidate) => candidate.id === message?.parent_id);
+    if (!question) return;
+
+    await streamReply(question, getThread(chat.messages, question.id), false);
+  }, [chat.messages, chat.loading, streamReply]);
+
+  // Resends the last question on the current branch after its answer failed.
+  // A partial answer is kept as a sibling branch, like a regenerated one.
+  const retryLastMessage = useCallback(async () => {
+    if (chat.loading) return;
+
+    const thread = getThread(chat.messages, chat.currentLeafId);
+    const question = [...thread].reverse().find((message) => message.role === 'user');
+    if (!question) return;
+
+    await streamReply(question, getThread(chat.messages, question.id), false);
+  }, [chat.messages, chat.currentLeafId, chat.loading, streamReply]);
+
+  // Forks the conversation with an edited copy of a user message
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    if (!content.trim() || chat.loading) return;
+
+    const original = chat.messages.find((candidate) => candidate.id === messageId);
+    if (!original || original.role !== 'user') return;
+
+    const question: AssistantChatMessage = {
+      id: crypto.randomUUID(),
+      parent_id: original.parent_id,
+      role: 'user',
+      content: content.trim(),
+    };
+
+    await streamReply(
+      question,
+      [...getThread(chat.messages, original.parent_id), question],
+      true
+    );
+  }, [chat.messages, chat.loading, streamReply]);
+
+  // Shows the branch containing the given message, following its latest replies
+  const switchBranch = useCallback((messageId: string) => {
+    if (chat.loading) return;
+
+    const leafId = getLatestLeaf(chat.messages, messageId);
+    setChat((prev) => ({
+      ...prev,
+      currentLeafId: leafId,
+      error: null,
+      errorCode: null,
+      errorRetryable: false,
+    }));
+    persistLeaf(leafId);
+  }, [chat.messages, chat.loading, persistLeaf]);
+
+  // Starts a new conversation. The current one stays stored; the next message creates the new one.
   const clearChat = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+    stopGeneration();
     setChat({
       messages: [],
+      currentLeafId: null,
       loading: false,
     });
-  }, []);
+    activateConversation(null);
+    applyScope(EMPTY_SCOPE);
+  }, [activateConversation, applyScope, stopGeneration]);
 
   return {
     chat,
+    conversationId,
+    scope,
+    setScope,
     sendMessage,
+    regenerate,
+    retryLastMessage,
+    editMessage,
+    switchBranch,
+    stopGeneration,
+    loadConversation,
+    importConversation,
     clearChat,
   };
 }
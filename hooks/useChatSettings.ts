@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { chatSettingsSchema, type ChatSettings } from '@/lib/chatSettings';
+import { useAppConfig } from './useAppConfig';
+
+const CHAT_SETTINGS_STORAGE_KEY = 'pinecone-assistant:chat-settings';
+
+function readStoredSettings(): ChatSettings {
+  try {
+    const stored = window.localStorage.getItem(CHAT_SETTINGS_STORAGE_KEY);
+    const parsed = chatSettingsSchema.safeParse(stored ? JSON.parse(stored) : {});
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+// Chat tuning settings picked in this browser. Only the settings the user
+// changed are stored and sent; the rest follow the operator defaults.
+export function useChatSettings() {
+  const { data: config } = useAppConfig();
+  const [chatSettings, setStoredSettings] = useState<ChatSettings>({});
+
+  useEffect(() => {
+    // Read after mount to avoid hydration mismatch
+    setStoredSettings(readStoredSettings());
+  }, []);
+
+  const setChatSettings = useCallback((settings: ChatSettings) => {
+    setStoredSettings(settings);
+    if (Object.keys(settings).length > 0) {
+      window.localStorage.setItem(CHAT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } else {
+      window.localStorage.removeItem(CHAT_SETTINGS_STORAGE_KEY);
+    }
+  }, []);
+
+  return {
+    chatSettings,
+    chatDefaults: config?.chatDefaults ?? {},
+    setChatSettings,
+  };
+}
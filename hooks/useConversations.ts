@@ -0,0 +1,38 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getClientConversationStore } from '@/lib/conversations/client';
+import type { AssistantConversationUpdate } from '@/lib/types';
+
+export function useConversations(query: string) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['conversations', query],
+    queryFn: () => getClientConversationStore().list(query),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['conversations'] });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: AssistantConversationUpdate }) =>
+      getClientConversationStore().update(id, update),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => getClientConversationStore().delete(id),
+    onSettled: invalidate,
+  });
+
+  return {
+    conversations: data ?? [],
+    isLoading,
+    error,
+    renameConversation: (id: string, title: string) =>
+      updateMutation.mutateAsync({ id, update: { title } }),
+    setPinned: (id: string, pinned: boolean) =>
+      updateMutation.mutateAsync({ id, update: { pinned } }),
+    deleteConversation: (id: string) => deleteMutation.mutateAsync(id),
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { markFileListChanged, updateCachedFiles, type FilesData } from '@/lib/fileListClient';
+import { AssistantFileStatus } from '@/lib/types';
+
+async function deleteFile(fileId: string) {
+  const response = await fetch(`/api/files/${encodeURIComponent(fileId)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to delete file: ${response.status}`);
+  }
+  markFileListChanged();
+}
+
+// Deletes a file, marking it as Deleting in the files cache straight away.
+// The files query keeps polling until the file drops out of the list.
+export function useDeleteFile(assistantName: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ['files', assistantName];
+
+  const mutation = useMutation({
+    mutationFn: deleteFile,
+    onMutate: async (fileId: string) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueriesData<FilesData>({ queryKey });
+      updateCachedFiles(queryClient, assistantName, (files) => files.map((file) =>
+        file.id === fileId ? { ...file, status: AssistantFileStatus.DELETING } : file
+      ));
+      return { previous };
+    },
+    onError: (_error, _fileId, context) => {
+      context?.previous.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['files'], exact: true });
+    },
+  });
+
+  return mutation.mutateAsync;
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_FILE_FILTERS,
+  type FileFilters,
+  getFileFilterParams,
+  parseFileFilters,
+} from '@/lib/fileFilters';
+import { setSearchParam } from '@/lib/url';
+
+// Files panel search, sort and status filters, kept in the URL query so they
+// survive reloads and can be linked to
+export function useFileFilters() {
+  const [filters, setFiltersState] = useState<FileFilters>(DEFAULT_FILE_FILTERS);
+  // Set once the user changes the filters. Until then the URL is the source,
+  // and writing the defaults back would wipe it before it's read.
+  const changedRef = useRef(false);
+
+  // Read after mount; the URL isn't available while rendering on the server
+  useEffect(() => {
+    setFiltersState(parseFileFilters(new URLSearchParams(window.location.search)));
+  }, []);
+
+  useEffect(() => {
+    if (!changedRef.current) return;
+    Object.entries(getFileFilterParams(filters)).forEach(([name, value]) => setSearchParam(name, value));
+  }, [filters]);
+
+  // Updates build on the latest filters, so calls in the same tick don't undo each other
+  const setFilters = useCallback((update: Partial<FileFilters>) => {
+    changedRef.current = true;
+    setFiltersState((prev) => ({ ...prev, ...update }));
+  }, []);
+
+  return { filters, setFilters };
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import { markFileListChanged, updateCachedFiles } from '@/lib/fileListClient';
+import { hasUploadExtension, MAX_UPLOAD_BYTES, UPLOAD_FILE_EXTENSIONS } from '@/lib/files';
+import type { AssistantFile } from '@/lib/types';
+
+// A file being sent to /api/files. Once the upload is accepted the file moves
+// to the files list, where processing progress is shown.
+export type PendingUpload = {
+  id: string;
+  name: string;
+  error?: string;
+};
+
+async function uploadFile(file: File): Promise<AssistantFile> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/files', { method: 'POST', body: formData });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Upload failed: ${response.status}`);
+  }
+  markFileListChanged();
+  const { file: uploaded } = await response.json();
+  return uploaded;
+}
+
+// Checked before uploading so unsupported files fail without a round trip
+function validateFile(file: File): string | null {
+  if (!hasUploadExtension(file.name)) {
+    return `Unsupported file type. Supported types: ${UPLOAD_FILE_EXTENSIONS.join(', ')}`;
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+export function useFileUpload(assistantName: string) {
+  const queryClient = useQueryClient();
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+
+  const uploadOne = useCallback(async (file: File) => {
+    const upload: PendingUpload = { id: crypto.randomUUID(), name: file.name };
+    const fail = (error: string) => setUploads((prev) =>
+      prev.map((candidate) => (candidate.id === upload.id ? { ...candidate, error } : candidate))
+    );
+
+    setUploads((prev) => [...prev, upload]);
+
+    const validationError = validateFile(file);
+    if (validationError) {
+      fail(validationError);
+      return;
+    }
+
+    try {
+      const uploaded = await uploadFile(file);
+      // Show the new file right away; the files query polls while it processes
+      updateCachedFiles(queryClient, assistantName, (files, pageIndex) => [
+        ...(pageIndex === 0 ? [uploaded] : []),
+        ...files.filter((candidate) => candidate.id !== uploaded.id),
+      ]);
+      queryClient.invalidateQueries({ queryKey: ['files'], exact: true });
+      setUploads((prev) => prev.filter((candidate) => candidate.id !== upload.id));
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      fail(error instanceof Error ? error.message : 'Upload failed');
+    }
+  }, [assistantName, queryClient]);
+
+  const uploadFiles = useCallback((files: Iterable<File>) => {
+    return Promise.all(Array.from(files, uploadOne));
+  }, [uploadOne]);
+
+  const dismissUpload = useCallback((id: string) => {
+    setUploads((prev) => prev.filter((upload) => upload.id !== id));
+  }, []);
+
+  return { uploads, uploadFiles, dismissUpload };
+}
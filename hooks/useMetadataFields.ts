@@ -0,0 +1,24 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { MetadataField } from '@/lib/metadataFilter';
+
+async function fetchMetadataFields(): Promise<MetadataField[]> {
+  const response = await fetch('/api/files/metadata');
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to fetch file metadata');
+  }
+  const data = await response.json();
+  return data.fields;
+}
+
+// Metadata keys and values across the assistant's files. Only fetched while
+// `enabled`, e.g. when the filter builder is open.
+export function useMetadataFields(enabled: boolean) {
+  return useQuery({
+    queryKey: ['file-metadata'],
+    queryFn: fetchMetadataFields,
+    enabled,
+  });
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAppConfig } from './useAppConfig';
+
+const MODEL_STORAGE_KEY = 'pinecone-assistant:model';
+
+export function useModelSelection() {
+  const { data: config } = useAppConfig();
+  const [storedModel, setStoredModel] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Read after mount to avoid hydration mismatch
+    setStoredModel(window.localStorage.getItem(MODEL_STORAGE_KEY));
+  }, []);
+
+  const models = config?.models ?? [];
+
+  // A stored model the operator no longer allows falls back to the default
+  const model = storedModel && models.includes(storedModel)
+    ? storedModel
+    : config?.defaultModel ?? null;
+
+  const setModel = useCallback((newModel: string) => {
+    setStoredModel(newModel);
+    window.localStorage.setItem(MODEL_STORAGE_KEY, newModel);
+  }, []);
+
+  return {
+    models,
+    model,
+    setModel,
+  };
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+
+async function request(method: 'POST' | 'DELETE', body?: unknown) {
+  const response = await fetch('/api/operator', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Operator request failed: ${response.status}`);
+  }
+}
+
+// Signs this browser in or out as an operator. The operator state itself is
+// reported by /api/config, so it is refetched afterwards.
+export function useOperator() {
+  const queryClient = useQueryClient();
+
+  const signIn = useCallback(async (token: string) => {
+    await request('POST', { token });
+    await queryClient.invalidateQueries({ queryKey: ['config'] });
+  }, [queryClient]);
+
+  const signOut = useCallback(async () => {
+    await request('DELETE');
+    await queryClient.invalidateQueries({ queryKey: ['config'] });
+  }, [queryClient]);
+
+  return { signIn, signOut };
+}
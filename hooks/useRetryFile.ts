@@ -0,0 +1,43 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { markFileListChanged, updateCachedFiles } from '@/lib/fileListClient';
+import type { AssistantFile } from '@/lib/types';
+
+type RetryResult = {
+  file: AssistantFile;
+  deleted: boolean; // Whether the failed entry was removed
+};
+
+async function retryFile(fileId: string): Promise<RetryResult> {
+  const response = await fetch(`/api/files/${encodeURIComponent(fileId)}/retry`, { method: 'POST' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to retry file: ${response.status}`);
+  }
+  markFileListChanged();
+  return response.json();
+}
+
+// Re-uploads a file that failed processing. The new upload replaces the
+// failed entry in the files cache, so progress shows without waiting for a refetch.
+export function useRetryFile(assistantName: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ['files', assistantName];
+
+  const mutation = useMutation({
+    mutationFn: retryFile,
+    onSuccess: ({ file, deleted }, fileId) => {
+      updateCachedFiles(queryClient, assistantName, (files, pageIndex) => [
+        ...(pageIndex === 0 ? [file] : []),
+        ...files.filter((existing) => !deleted || existing.id !== fileId),
+      ]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['files'], exact: true });
+    },
+  });
+
+  return mutation.mutateAsync;
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { useChat } from '@/hooks/useChat';
+import { useChatSettings } from '@/hooks/useChatSettings';
+import { useModelSelection } from '@/hooks/useModelSelection';
+
+type ChatContextType = ReturnType<typeof useChat>
+  & ReturnType<typeof useModelSelection>
+  & ReturnType<typeof useChatSettings>;
+
+const ChatContext = createContext<ChatContextType | undefined>(undefined);
+
+export function useChatContext() {
+  const context = useContext(ChatContext);
+  if (!context) {
+    throw new Error('useChatContext must be used within ChatContextProvider');
+  }
+  return context;
+}
+
+// Shares one chat session between the chat pane and the conversations panel
+export function ChatContextProvider({ children }: { children: ReactNode }) {
+  const modelSelection = useModelSelection();
+  const chatSettings = useChatSettings();
+  const chat = useChat({ model: modelSelection.model, settings: chatSettings.chatSettings });
+
+  return (
+    <ChatContext.Provider value={{ ...chat, ...modelSelection, ...chatSettings }}>
+      {children}
+    </ChatContext.Provider>
+  );
+}
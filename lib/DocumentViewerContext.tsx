@@ -0,0 +1,78 @@
+'use client';
+
+import { createContext, useCallback, useContext, useState, ReactNode } from 'react';
+import { getFileDownloadUrl } from '@/lib/files';
+import type { AssistantCitationReference, AssistantFile } from '@/lib/types';
+
+// A file opened in the viewer, optionally at a cited page and passage
+export type ViewedDocument = {
+  file: Pick<AssistantFile, 'id' | 'name'>;
+  page: number | null;
+  highlight: string | null;
+};
+
+interface DocumentViewerContextType {
+  document: ViewedDocument | null;
+  openCitation: (reference: AssistantCitationReference) => void;
+  closeDocument: () => void;
+}
+
+const DocumentViewerContext = createContext<DocumentViewerContextType | undefined>(undefined);
+
+// Returns undefined outside DocumentViewerContextProvider, e.g. on shared
+// pages, where citations fall back to downloading the file
+export function useDocumentViewer() {
+  return useContext(DocumentViewerContext);
+}
+
+// Opens a cited file in the viewer when there is one, otherwise downloads it
+// through the server-side proxy (which signs a fresh URL)
+export function useOpenReference() {
+  const viewer = useDocumentViewer();
+
+  return useCallback((reference: AssistantCitationReference) => {
+    const { id: fileId, signed_url: signedUrl } = reference.file;
+    if (fileId && viewer) {
+      viewer.openCitation(reference);
+    } else if (fileId) {
+      const link = document.createElement('a');
+      link.href = getFileDownloadUrl(fileId);
+      link.target = '_blank';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } else if (signedUrl) {
+      // Fallback: try direct URL if we don't have file ID
+      window.open(signedUrl, '_blank');
+    }
+  }, [viewer]);
+}
+
+export function DocumentViewerContextProvider({
+  children,
+  onOpen,
+  disabled = false,
+}: {
+  children: ReactNode;
+  onOpen?: () => void; // Lets the page reveal the pane the viewer lives in
+  disabled?: boolean; // No pane to show documents in, so citations download instead
+}) {
+  const [document, setDocument] = useState<ViewedDocument | null>(null);
+
+  const openCitation = useCallback((reference: AssistantCitationReference) => {
+    setDocument({
+      file: { id: reference.file.id, name: reference.file.name },
+      page: reference.pages.length > 0 ? Math.min(...reference.pages) : null,
+      highlight: reference.highlight?.content ?? null,
+    });
+    onOpen?.();
+  }, [onOpen]);
+
+  const closeDocument = useCallback(() => setDocument(null), []);
+
+  return (
+    <DocumentViewerContext.Provider value={disabled ? undefined : { document, openCitation, closeDocument }}>
+      {children}
+    </DocumentViewerContext.Provider>
+  );
+}
@@ -0,0 +1,55 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+// Operators can manage the assistant's files. They authenticate with
+// OPERATOR_TOKEN, either as a bearer token (for scripts) or through the
+// session cookie set by /api/operator. Without OPERATOR_TOKEN nobody is an operator.
+export const OPERATOR_COOKIE = 'pinecone-assistant-operator';
+
+const COOKIE_MAX_AGE = 7 * 24 * 60 * 60;
+
+function digest(value: string) {
+  return createHash('sha256').update(value).digest();
+}
+
+function matchesOperatorToken(token: string | null | undefined) {
+  const operatorToken = process.env.OPERATOR_TOKEN;
+  if (!operatorToken || !token) return false;
+  return timingSafeEqual(digest(token), digest(operatorToken));
+}
+
+export function isOperatorConfigured() {
+  return !!process.env.OPERATOR_TOKEN;
+}
+
+export function verifyOperatorToken(token: unknown) {
+  return typeof token === 'string' && matchesOperatorToken(token);
+}
+
+export function isOperatorRequest(req: NextRequest) {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return matchesOperatorToken(authorization.slice('Bearer '.length).trim());
+  }
+  // The cookie holds a hash of the token rather than the token itself
+  const cookie = req.cookies.get(OPERATOR_COOKIE)?.value;
+  const operatorToken = process.env.OPERATOR_TOKEN;
+  if (!cookie || !operatorToken) return false;
+  const expected = digest(operatorToken);
+  const actual = Buffer.from(cookie, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function setOperatorCookie(res: NextResponse) {
+  res.cookies.set(OPERATOR_COOKIE, digest(process.env.OPERATOR_TOKEN!).toString('hex'), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
+
+export function clearOperatorCookie(res: NextResponse) {
+  res.cookies.delete(OPERATOR_COOKIE);
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { DOCUMENT_ID_METADATA_KEY, getDocumentId } from '@/lib/files';
+import { metadataFilterSchema } from '@/lib/metadataFilter';
+import type { AssistantChatScope, AssistantFile } from '@/lib/types';
+
+export const EMPTY_SCOPE: AssistantChatScope = { files: [], filter: null };
+
+export const chatScopeSchema = z.object({
+  files: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+  })).max(100).default([]),
+  filter: metadataFilterSchema.nullable().default(null),
+});
+
+export function isEmptyScope(scope: AssistantChatScope | null | undefined) {
+  return !scope || (scope.files.length === 0 && !scope.filter);
+}
+
+// Files can only be picked for a scope if they carry a document id to filter on
+export function isScopableFile(file: Pick<AssistantFile, 'metadata'>) {
+  return getDocumentId(file) !== null;
+}
+
+// Turns a scope into the metadata filter passed to chat. Selected files are
+// looked up in `files` to find their document ids.
+export function buildScopeFilter(
+  scope: AssistantChatScope,
+  files: AssistantFile[]
+): { filter?: Record<string, unknown>; error?: string } {
+  const parts: Record<string, unknown>[] = [];
+
+  if (scope.files.length > 0) {
+    const documentIds: string[] = [];
+    for (const selected of scope.files) {
+      const file = files.find((candidate) => candidate.id === selected.id);
+      if (!file) {
+        return { error: `File not found: ${selected.name || selected.id}` };
+      }
+      const documentId = getDocumentId(file);
+      if (!documentId) {
+        return { error: `"${file.name}" has no ${DOCUMENT_ID_METADATA_KEY} metadata, so chats can't be scoped to it` };
+      }
+      documentIds.push(documentId);
+    }
+    parts.push({ [DOCUMENT_ID_METADATA_KEY]: { $in: documentIds } });
+  }
+
+  if (scope.filter) {
+    parts.push(scope.filter);
+  }
+
+  if (parts.length === 0) return {};
+  return { filter: parts.length === 1 ? parts[0] : { $and: parts } };
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// Bounds accepted by Pinecone Assistant chat
+export const CHAT_SETTING_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  top_k: { min: 1, max: 64 },
+  snippet_size: { min: 512, max: 8192 },
+} as const;
+
+export const chatSettingsSchema = z.object({
+  temperature: z.number().min(CHAT_SETTING_LIMITS.temperature.min).max(CHAT_SETTING_LIMITS.temperature.max),
+  include_highlights: z.boolean(),
+  top_k: z.number().int().min(CHAT_SETTING_LIMITS.top_k.min).max(CHAT_SETTING_LIMITS.top_k.max),
+  snippet_size: z.number().int().min(CHAT_SETTING_LIMITS.snippet_size.min).max(CHAT_SETTING_LIMITS.snippet_size.max),
+  json_response: z.boolean(),
+}).partial().strict();
+
+// Settings left out fall back to the operator default, then to the assistant's own
+export type ChatSettings = z.infer<typeof chatSettingsSchema>;
+
+function readNumber(name: string) {
+  const value = process.env[name]?.trim();
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function readBoolean(name: string) {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+// Operator defaults from CHAT_* env vars. Values that are out of range or
+// malformed are ignored, like unknown entries in ALLOWED_MODELS. Highlights are
+// on unless turned off, so citations can show the passage they point at.
+export function getDefaultChatSettings(): ChatSettings {
+  const candidates: ChatSettings = {
+    temperature: readNumber('CHAT_TEMPERATURE'),
+    include_highlights: readBoolean('CHAT_INCLUDE_HIGHLIGHTS') ?? true,
+    top_k: readNumber('CHAT_TOP_K'),
+    snippet_size: readNumber('CHAT_SNIPPET_SIZE'),
+    json_response: readBoolean('CHAT_JSON_RESPONSE'),
+  };
+
+  const settings: ChatSettings = {};
+  for (const key of Object.keys(candidates) as (keyof ChatSettings)[]) {
+    if (candidates[key] === undefined) continue;
+    const parsed = chatSettingsSchema.safeParse({ [key]: candidates[key] });
+    if (parsed.success) {
+      Object.assign(settings, parsed.data);
+    } else {
+      console.warn(`Ignoring invalid chat default ${key}: ${candidates[key]}`);
+    }
+  }
+  return settings;
+}
+
+// Maps settings onto the SDK's chat options, leaving out anything unset
+export function toChatOptions(settings: ChatSettings) {
+  const contextOptions = {
+    ...(settings.top_k !== undefined && { topK: settings.top_k }),
+    ...(settings.snippet_size !== undefined && { snippetSize: settings.snippet_size }),
+  };
+
+  return {
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+    ...(settings.include_highlights !== undefined && { includeHighlights: settings.include_highlights }),
+    ...(settings.json_response !== undefined && { jsonResponse: settings.json_response }),
+    ...(Object.keys(contextOptions).length > 0 && { contextOptions }),
+  };
+}
@@ -0,0 +1,227 @@
+import { Readable } from 'node:stream';
+import { ChatStream, type ChatOptions } from '@pinecone-database/pinecone';
+import { getOrderedCitations } from '@/lib/citations';
+import { transformFile } from '@/lib/files';
+import { fetchAssistant } from '@/lib/pinecone';
+import { withRetry } from '@/lib/retry';
+import type { AssistantChatMessageCitation, AssistantChatMessageResponse, AssistantChatResponse } from '@/lib/types';
+
+// Events read from the assistant; errors are thrown rather than yielded
+export type ChatEvent = Exclude<AssistantChatMessageResponse, { type: 'error' }>;
+
+// Citation files arrive in the SDK's camelCase with Date fields; convert them
+// to the AssistantFile shape the rest of the app uses
+function transformCitation(citation: any): AssistantChatMessageCitation {
+  return {
+    position: citation?.position ?? 0,
+    references: (citation?.references ?? []).map((reference: any) => ({
+      file: transformFile(reference.file ?? {}),
+      highlight: reference.highlight ?? null,
+      pages: reference.pages ?? [],
+    })),
+  };
+}
+
+// Turns one item of the SDK stream into a ChatEvent, or null if it can't be read
+export function toChatEvent(chunk: unknown): ChatEvent | null {
+  // SDK should return objects, but handle string case as fallback
+  const data: any = typeof chunk === 'string'
+    ? JSON.parse(chunk.replace(/^data:\s*/, '').trim())
+    : chunk;
+
+  if (!data) return null;
+
+  switch (data.type) {
+    case 'message_start':
+      return {
+        type: 'message_start',
+        id: data.id,
+        model: data.model,
+        role: data.role,
+      };
+    case 'content_chunk':
+      return {
+        type: 'content_chunk',
+        delta: { content: data.delta?.content || data.content || '' },
+      };
+    case 'citation':
+      return {
+        type: 'citation',
+        citation: transformCitation(data.citation),
+      };
+    case 'message_end': {
+      const usage = data.usage;
+      return {
+        type: 'message_end',
+        finish_reason: data.finishReason ?? data.finish_reason,
+        usage: usage && {
+          prompt_tokens: usage.promptTokens ?? usage.prompt_tokens ?? 0,
+          completion_tokens: usage.completionTokens ?? usage.completion_tokens ?? 0,
+          total_tokens: usage.totalTokens ?? usage.total_tokens ?? 0,
+        },
+      };
+    }
+    default:
+      // Pass through unknown types
+      return data;
+  }
+}
+
+// The chat API's request body. Built here rather than by the SDK, which
+// leaves out `temperature`.
+function toChatRequestBody(options: ChatOptions, stream: boolean) {
+  const { topK, snippetSize } = options.contextOptions ?? {};
+  return {
+    messages: options.messages,
+    model: options.model,
+    filter: options.filter,
+    temperature: options.temperature,
+    json_response: options.jsonResponse,
+    include_highlights: options.includeHighlights,
+    context_options: topK || snippetSize ? { top_k: topK, snippet_size: snippetSize } : undefined,
+    stream,
+  };
+}
+
+// A non-streamed answer as the chunks a stream would have sent
+async function* toResponseChunks(response: any) {
+  yield { type: 'message_start', id: response.id, model: response.model, role: 'assistant' };
+  yield { type: 'content_chunk', delta: { content: response.message?.content ?? '' } };
+  for (const citation of response.citations ?? []) {
+    yield { type: 'citation', citation };
+  }
+  yield { type: 'message_end', finish_reason: response.finish_reason, usage: response.usage };
+}
+
+// Opens the chat. Pinecone doesn't stream JSON-mode answers, so those are
+// requested whole and replayed as chunks.
+async function openChat(assistantName: string, options: ChatOptions, signal?: AbortSignal) {
+  const stream = !options.jsonResponse;
+  const response = await fetchAssistant(assistantName, `/chat/${assistantName}`, toChatRequestBody(options, stream), signal);
+  if (!stream) {
+    return toResponseChunks(await response.json());
+  }
+  if (!response.body) {
+    throw new Error('Chat response has no body');
+  }
+  // ChatStream parses the SSE lines, converting keys to camelCase as the SDK's chatStream does
+  return new ChatStream(Readable.fromWeb(response.body as any));
+}
+
+// Streams a chat answer from the assistant as ChatEvents, ending after
+// message_end. Returning early (or `signal` aborting) closes the iterator
+// and its upstream connection, so we stop reading (and paying for) tokens.
+// Transient failures before the first chunk are retried; once the answer has
+// started, a failure is thrown since the chunks already sent can't be taken back.
+export async function* streamChat(
+  assistantName: string,
+  options: ChatOptions,
+  signal?: AbortSignal
+): AsyncGenerator<ChatEvent> {
+  const { iterator, first } = await withRetry(async () => {
+    const chunks: AsyncIterable<unknown> = await openChat(assistantName, options, signal);
+    const iterator = chunks[Symbol.asyncIterator]();
+    try {
+      return { iterator, first: await iterator.next() };
+    } catch (error) {
+      // Close this attempt's stream before the next one opens another
+      await iterator.return?.();
+      throw error;
+    }
+  }, { signal });
+
+  try {
+    for (let result = first; !result.done; result = await iterator.next()) {
+      if (signal?.aborted) return;
+      const chunk = result.value;
+      if (!chunk) continue;
+
+      let event: ChatEvent | null;
+      try {
+        event = toChatEvent(chunk);
+      } catch (error) {
+        console.error('Error processing chunk:', error, chunk);
+        continue;
+      }
+      if (!event) continue;
+
+      yield event;
+      if (event.type === 'message_end') return;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+// Reads a whole answer into one response, for callers that can't consume SSE
+export async function collectChat(events: AsyncIterable<ChatEvent>): Promise<AssistantChatResponse> {
+  const response: AssistantChatResponse = {
+    id: null,
+    model: null,
+    content: '',
+    citations: [],
+    finish_reason: null,
+    usage: null,
+  };
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'message_start':
+        response.id = event.id ?? null;
+        response.model = event.model ?? null;
+        break;
+      case 'content_chunk':
+        response.content += event.delta.content;
+        break;
+      case 'citation':
+        response.citations.push(event.citation);
+        break;
+      case 'message_end':
+        response.finish_reason = event.finish_reason ?? null;
+        response.usage = event.usage ?? null;
+        break;
+    }
+  }
+
+  return { ...response, citations: getOrderedCitations(response.content, response.citations) };
+}
+
+// Serializes `source` as server-sent events, one per item. An error while
+// reading ends the stream with the event built by `onError`; `done` is sent
+// after the last item when given. Cancelling the response stops the source.
+export function toEventStream<T>(
+  source: AsyncIterable<T>,
+  { onError, done }: { onError: (error: unknown) => unknown; done?: string }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = source[Symbol.asyncIterator]();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, data: unknown) => {
+    controller.enqueue(encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await iterator.next();
+        if (!result.done) {
+          send(controller, result.value);
+          return;
+        }
+        if (done) send(controller, done);
+      } catch (error) {
+        console.error('Stream error:', error);
+        send(controller, onError(error));
+      }
+      controller.close();
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
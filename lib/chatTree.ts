@@ -0,0 +1,36 @@
+import type { AssistantChatMessage } from '@/lib/types';
+
+// Messages from the root down to (and including) the given leaf
+export function getThread(
+  messages: AssistantChatMessage[],
+  leafId: string | null
+): AssistantChatMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const thread: AssistantChatMessage[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    thread.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return thread;
+}
+
+// Messages sharing a parent, in the order they were created
+export function getSiblings(
+  messages: AssistantChatMessage[],
+  message: AssistantChatMessage
+): AssistantChatMessage[] {
+  return messages.filter((candidate) => candidate.parent_id === message.parent_id);
+}
+
+// Follows the most recent child at each level to find the end of a branch
+export function getLatestLeaf(messages: AssistantChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter((message) => message.parent_id === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
@@ -0,0 +1,129 @@
+import type {
+  AssistantChatMessage,
+  AssistantChatMessageCitation,
+  AssistantCitationReference,
+} from '@/lib/types';
+import { getSafeCitationOffsets } from '@/lib/remarkCitations';
+
+// Citations with a usable position, sorted by position. Index i is shown as [i + 1].
+export function getOrderedCitations(
+  content: string,
+  citations?: AssistantChatMessageCitation[]
+): AssistantChatMessageCitation[] {
+  if (!citations || citations.length === 0) {
+    return [];
+  }
+
+  return citations
+    .filter(citation => citation.position >= 0 && citation.position <= content.length)
+    .sort((a, b) => a.position - b.position);
+}
+
+// Inserts a raw marker per citation into markdown. Markers go at the nearest
+// place that keeps the markdown intact (not inside code, math or links), the
+// same places the chat shows them; any without one are appended at the end.
+export function insertCitationMarkers(
+  content: string,
+  citations: AssistantChatMessageCitation[] | undefined,
+  getMarker: (index: number) => string
+): string {
+  const orderedCitations = getOrderedCitations(content, citations);
+
+  if (orderedCitations.length === 0) {
+    return content;
+  }
+
+  const offsets = getSafeCitationOffsets(content, orderedCitations.map((citation) => citation.position));
+  const markers = orderedCitations.map((_, index) => ({ index, offset: offsets[index] }));
+  const placed = markers.filter((marker) => marker.offset !== null);
+  const unplaced = markers.filter((marker) => marker.offset === null);
+
+  let result = content;
+
+  // Insert markers from end to beginning to maintain correct string positions;
+  // markers sharing an offset stay in citation order
+  placed
+    .sort((a, b) => b.offset! - a.offset! || b.index - a.index)
+    .forEach(({ index, offset }) => {
+      result = result.slice(0, offset!) + getMarker(index) + result.slice(offset!);
+    });
+
+  if (unplaced.length > 0) {
+    result += `\n\n${unplaced.map(({ index }) => getMarker(index)).join('')}`;
+  }
+
+  return result;
+}
+
+export function getSortedPages(reference: AssistantCitationReference): number[] {
+  return [...reference.pages].sort((a, b) => a - b);
+}
+
+// One-line description of a reference, e.g. `report.pdf, pages 2, 5 — "quoted text"`
+export function formatCitationReference(reference: AssistantCitationReference): string {
+  const pages = getSortedPages(reference);
+  let text = reference.file.name;
+  if (pages.length > 0) {
+    text += `, ${pages.length === 1 ? 'page' : 'pages'} ${pages.join(', ')}`;
+  }
+  if (reference.highlight?.content) {
+    text += ` — "${reference.highlight.content.replace(/\s+/g, ' ').trim()}"`;
+  }
+  return text;
+}
+
+// How many times each file is cited across messages, keyed by file id. A
+// citation referencing the same file twice counts once.
+export function countCitationsByFile(messages: AssistantChatMessage[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    for (const citation of message.citations ?? []) {
+      const fileIds = new Set(citation.references.map((reference) => reference.file.id));
+      fileIds.forEach((fileId) => counts.set(fileId, (counts.get(fileId) ?? 0) + 1));
+    }
+  }
+  return counts;
+}
+
+// A cited file, listed once however many citations reference it
+export type CitationSource = {
+  file: AssistantCitationReference['file'];
+  pages: number[]; // Every cited page across its references, sorted
+  citationNumbers: number[]; // The [n] markers that cite it
+  reference: AssistantCitationReference; // Earliest reference, opened when the source is clicked
+};
+
+// Groups a message's citations by file, in order of first citation. Citations
+// past the end of the content (possible mid-stream) are listed without a number.
+export function getCitationSources(
+  content: string,
+  citations?: AssistantChatMessageCitation[]
+): CitationSource[] {
+  if (!citations || citations.length === 0) {
+    return [];
+  }
+
+  const ordered = getOrderedCitations(content, citations);
+  const sources = new Map<string, CitationSource & { pageSet: Set<number> }>();
+
+  [...citations].sort((a, b) => a.position - b.position).forEach((citation) => {
+    const number = ordered.indexOf(citation) + 1;
+    for (const reference of citation.references) {
+      const key = reference.file.id || reference.file.name;
+      let source = sources.get(key);
+      if (!source) {
+        source = { file: reference.file, pages: [], citationNumbers: [], reference, pageSet: new Set() };
+        sources.set(key, source);
+      }
+      reference.pages.forEach((page) => source!.pageSet.add(page));
+      if (number > 0 && !source.citationNumbers.includes(number)) {
+        source.citationNumbers.push(number);
+      }
+    }
+  });
+
+  return Array.from(sources.values()).map(({ pageSet, ...source }) => ({
+    ...source,
+    pages: Array.from(pageSet).sort((a, b) => a - b),
+  }));
+}
@@ -5,3 +5,4 @@ export const DRAWER_NARROW_WIDTH = 320;
 export const WIDE_PAGE_WIDTH = 1380;
 export const DRAWER_PANEL_HEADER_HEIGHT = 70;
 
+export const CONVERSATIONS_PANEL_WIDTH = 260;
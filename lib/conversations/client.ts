@@ -0,0 +1,16 @@
+import { HttpConversationStore } from './httpStore';
+import { IndexedDbConversationStore } from './indexedDbStore';
+import type { ConversationStore } from './store';
+
+let store: ConversationStore | null = null;
+
+// Browser-side conversation store. Conversations live in IndexedDB unless
+// NEXT_PUBLIC_CONVERSATION_STORAGE is 'server', which uses /api/conversations.
+export function getClientConversationStore(): ConversationStore {
+  if (!store) {
+    store = process.env.NEXT_PUBLIC_CONVERSATION_STORAGE === 'server'
+      ? new HttpConversationStore()
+      : new IndexedDbConversationStore();
+  }
+  return store;
+}
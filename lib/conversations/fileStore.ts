@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from '@/lib/fileStore';
+import type {
+  AssistantChatMessage,
+  AssistantConversation,
+  AssistantConversationUpdate,
+} from '@/lib/types';
+import {
+  appendMessages,
+  createConversation,
+  isValidConversationId,
+  matchesQuery,
+  sortSummaries,
+  toSummary,
+  updateConversation,
+  type ConversationStore,
+} from './store';
+
+// Serializes writes per conversation file so concurrent appends don't drop
+// messages. Shared by every store, since each request opens its own.
+const writeQueues = new Map<string, Promise<unknown>>();
+
+// Stores each conversation as a JSON file in a local directory
+export class FileConversationStore implements ConversationStore {
+  constructor(private readonly directory: string) {}
+
+  async create(messages: AssistantChatMessage[] = []) {
+    const conversation = createConversation(messages);
+    await this.write(conversation);
+    return conversation;
+  }
+
+  async list(query?: string) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const conversations = await Promise.all(
+      entries
+        .filter((entry) => entry.endsWith('.json'))
+        .map((entry) => this.get(entry.slice(0, -'.json'.length)))
+    );
+
+    return sortSummaries(
+      conversations
+        .filter((conversation): conversation is AssistantConversation => conversation !== null)
+        .filter((conversation) => matchesQuery(conversation, query))
+        .map(toSummary)
+    );
+  }
+
+  async get(id: string) {
+    if (!isValidConversationId(id)) return null;
+    return readJsonFile<AssistantConversation>(this.filePath(id));
+  }
+
+  async append(id: string, messages: AssistantChatMessage[]) {
+    return this.enqueue(id, async () => {
+      const conversation = await this.get(id);
+      if (!conversation) return null;
+
+      const updated = appendMessages(conversation, messages);
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async update(id: string, update: AssistantConversationUpdate) {
+    return this.enqueue(id, async () => {
+      const conversation = await this.get(id);
+      if (!conversation) return null;
+
+      const updated = updateConversation(conversation, update);
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async delete(id: string) {
+    if (!isValidConversationId(id)) return false;
+
+    return this.enqueue(id, async () => {
+      try {
+        await fs.unlink(this.filePath(id));
+        return true;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return false;
+        throw error;
+      }
+    });
+  }
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private write(conversation: AssistantConversation) {
+    return writeJsonFile(this.filePath(conversation.id), conversation);
+  }
+
+  private enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const key = this.filePath(id);
+    const previous = writeQueues.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    writeQueues.set(key, next);
+    next.finally(() => {
+      if (writeQueues.get(key) === next) {
+        writeQueues.delete(key);
+      }
+    }).catch(() => {});
+    return next;
+  }
+}
@@ -0,0 +1,87 @@
+import type {
+  AssistantChatMessage,
+  AssistantConversation,
+  AssistantConversationSummary,
+  AssistantConversationUpdate,
+} from '@/lib/types';
+import type { ConversationStore } from './store';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Conversation request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Client-side store backed by the /api/conversations routes
+export class HttpConversationStore implements ConversationStore {
+  async create(messages: AssistantChatMessage[] = []) {
+    const { conversation } = await request<{ conversation: AssistantConversation }>(
+      '/api/conversations',
+      { method: 'POST', body: JSON.stringify({ messages }) }
+    );
+    return conversation;
+  }
+
+  async list(query?: string) {
+    const params = query ? `?${new URLSearchParams({ q: query })}` : '';
+    const { conversations } = await request<{ conversations: AssistantConversationSummary[] }>(
+      `/api/conversations${params}`
+    );
+    return conversations;
+  }
+
+  async get(id: string) {
+    const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load conversation: ${response.status}`);
+    }
+    const { conversation } = await response.json();
+    return conversation as AssistantConversation;
+  }
+
+  async append(id: string, messages: AssistantChatMessage[]) {
+    const response = await fetch(`/api/conversations/${encodeURIComponent(id)}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages }),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to save messages: ${response.status}`);
+    }
+    const { conversation } = await response.json();
+    return conversation as AssistantConversation;
+  }
+
+  async update(id: string, update: AssistantConversationUpdate) {
+    const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to update conversation: ${response.status}`);
+    }
+    const { conversation } = await response.json();
+    return conversation as AssistantConversation;
+  }
+
+  async delete(id: string) {
+    const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`Failed to delete conversation: ${response.status}`);
+    }
+    return true;
+  }
+}
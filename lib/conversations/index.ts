@@ -0,0 +1,35 @@
+import path from 'path';
+import { AppError } from '@/lib/errors';
+import { FileConversationStore } from './fileStore';
+import { MemoryConversationStore } from './memoryStore';
+import type { ConversationStore } from './store';
+
+export type { ConversationStore } from './store';
+export { isValidConversationId } from './store';
+export {
+  createConversationOwner,
+  getConversationOwner,
+  setConversationOwnerCookie,
+} from './owner';
+
+const memoryStores = new Map<string, MemoryConversationStore>();
+
+// Server-side store of one owner's conversations (see ./owner), selected with
+// CONVERSATION_STORE ('file' or 'memory'). The file store needs
+// CONVERSATION_STORE_PATH: a temp directory wouldn't survive on Vercel.
+export function getConversationStore(owner: string): ConversationStore {
+  if (process.env.CONVERSATION_STORE === 'memory') {
+    let store = memoryStores.get(owner);
+    if (!store) {
+      store = new MemoryConversationStore();
+      memoryStores.set(owner, store);
+    }
+    return store;
+  }
+
+  const directory = process.env.CONVERSATION_STORE_PATH;
+  if (!directory) {
+    throw new AppError('internal', 'CONVERSATION_STORE_PATH environment variable is not set');
+  }
+  return new FileConversationStore(path.join(directory, owner));
+}
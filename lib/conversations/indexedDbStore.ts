@@ -0,0 +1,108 @@
+import type {
+  AssistantChatMessage,
+  AssistantConversation,
+  AssistantConversationUpdate,
+} from '@/lib/types';
+import {
+  appendMessages,
+  createConversation,
+  matchesQuery,
+  sortSummaries,
+  toSummary,
+  updateConversation,
+  type ConversationStore,
+} from './store';
+
+const DB_NAME = 'pinecone-assistant';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Browser-only store that keeps conversations in IndexedDB, so chats persist
+// without any server-side storage
+export class IndexedDbConversationStore implements ConversationStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async create(messages: AssistantChatMessage[] = []) {
+    const conversation = createConversation(messages);
+    await this.put(conversation);
+    return conversation;
+  }
+
+  async list(query?: string) {
+    const store = await this.objectStore('readonly');
+    const conversations = await promisify(store.getAll()) as AssistantConversation[];
+    return sortSummaries(
+      conversations
+        .filter((conversation) => matchesQuery(conversation, query))
+        .map(toSummary)
+    );
+  }
+
+  async get(id: string) {
+    const store = await this.objectStore('readonly');
+    const conversation = await promisify(store.get(id)) as AssistantConversation | undefined;
+    return conversation ?? null;
+  }
+
+  async append(id: string, messages: AssistantChatMessage[]) {
+    return this.modify(id, (conversation) => appendMessages(conversation, messages));
+  }
+
+  async update(id: string, update: AssistantConversationUpdate) {
+    return this.modify(id, (conversation) => updateConversation(conversation, update));
+  }
+
+  async delete(id: string) {
+    const existing = await this.get(id);
+    if (!existing) return false;
+
+    const store = await this.objectStore('readwrite');
+    await promisify(store.delete(id));
+    return true;
+  }
+
+  private async put(conversation: AssistantConversation) {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(conversation));
+  }
+
+  // Reads and writes in a single transaction so concurrent changes don't clobber each other
+  private async modify(
+    id: string,
+    change: (conversation: AssistantConversation) => AssistantConversation
+  ): Promise<AssistantConversation | null> {
+    const store = await this.objectStore('readwrite');
+    const conversation = await promisify(store.get(id)) as AssistantConversation | undefined;
+    if (!conversation) return null;
+
+    const updated = change(conversation);
+    await promisify(store.put(updated));
+    return updated;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,61 @@
+import type {
+  AssistantChatMessage,
+  AssistantConversation,
+  AssistantConversationUpdate,
+} from '@/lib/types';
+import {
+  appendMessages,
+  createConversation,
+  matchesQuery,
+  sortSummaries,
+  toSummary,
+  updateConversation,
+  type ConversationStore,
+} from './store';
+
+// In-memory store, used for tests and for deployments without writable storage.
+// Conversations are lost when the server process restarts and aren't shared
+// between instances.
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, AssistantConversation>();
+
+  async create(messages: AssistantChatMessage[] = []) {
+    const conversation = createConversation(messages);
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async list(query?: string) {
+    return sortSummaries(
+      Array.from(this.conversations.values())
+        .filter((conversation) => matchesQuery(conversation, query))
+        .map(toSummary)
+    );
+  }
+
+  async get(id: string) {
+    return this.conversations.get(id) ?? null;
+  }
+
+  async append(id: string, messages: AssistantChatMessage[]) {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return null;
+
+    const updated = appendMessages(conversation, messages);
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async update(id: string, update: AssistantConversationUpdate) {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return null;
+
+    const updated = updateConversation(conversation, update);
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string) {
+    return this.conversations.delete(id);
+  }
+}
@@ -0,0 +1,38 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+// Conversations stored on the server belong to the browser that created them.
+// It is identified by a random id in an httpOnly cookie, issued with its first
+// conversation; stores only ever see a hash of the id.
+export const CONVERSATION_OWNER_COOKIE = 'pinecone-assistant-owner';
+
+const OWNER_ID_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+function toOwner(ownerId: string) {
+  return createHash('sha256').update(ownerId).digest('hex');
+}
+
+// The owner of the requesting browser's conversations, or null if it has none yet
+export function getConversationOwner(req: NextRequest): string | null {
+  const ownerId = req.cookies.get(CONVERSATION_OWNER_COOKIE)?.value;
+  return ownerId && OWNER_ID_PATTERN.test(ownerId) ? toOwner(ownerId) : null;
+}
+
+// A new owner for a browser without one. Send `ownerId` back with
+// setConversationOwnerCookie.
+export function createConversationOwner() {
+  const ownerId = randomBytes(24).toString('base64url');
+  return { ownerId, owner: toOwner(ownerId) };
+}
+
+export function setConversationOwnerCookie(res: NextResponse, ownerId: string) {
+  res.cookies.set(CONVERSATION_OWNER_COOKIE, ownerId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
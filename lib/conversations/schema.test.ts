@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { conversationMessageSchema } from '@/lib/conversations/schema';
+
+const message = (references: unknown[]) => ({
+  id: 'm1',
+  parent_id: null,
+  role: 'assistant',
+  content: 'The sky is blue.',
+  citations: [{ position: 16, references }],
+});
+
+describe('conversationMessageSchema', () => {
+  it('accepts references with a file, pages and a highlight', () => {
+    const reference = {
+      file: { id: 'f1', name: 'sky.pdf' },
+      pages: [1, 2],
+      highlight: { type: 'text', content: 'blue' },
+    };
+    const parsed = conversationMessageSchema.parse(message([reference]));
+    expect(parsed.citations?.[0].references[0]).toMatchObject(reference);
+  });
+
+  it('defaults a missing highlight and file fields', () => {
+    const parsed = conversationMessageSchema.parse(message([{ file: { id: 'f1', name: 'sky.pdf' }, pages: [] }]));
+    expect(parsed.citations?.[0].references[0]).toEqual({
+      file: {
+        id: 'f1',
+        name: 'sky.pdf',
+        status: '',
+        metadata: null,
+        updated_on: '',
+        created_on: '',
+        percent_done: 0,
+        signed_url: null,
+      },
+      pages: [],
+      highlight: null,
+    });
+  });
+
+  it.each([
+    ['a file without an id', { file: { name: 'sky.pdf' }, pages: [] }],
+    ['pages that are not numbers', { file: { id: 'f1', name: 'sky.pdf' }, pages: ['1'] }],
+    ['a highlight without content', { file: { id: 'f1', name: 'sky.pdf' }, pages: [], highlight: { type: 'text' } }],
+    ['a bare string', 'sky.pdf'],
+  ])('rejects %s', (_label, reference) => {
+    expect(conversationMessageSchema.safeParse(message([reference])).success).toBe(false);
+  });
+});
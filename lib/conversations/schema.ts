@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { chatScopeSchema } from '@/lib/chatScope';
+
+// A cited file as transformFile returns it. Only what's needed to show and
+// open the citation is required; the other fields default like transformFile's.
+const citationFileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  status: z.string().default(''),
+  metadata: z.record(z.any()).nullable().default(null),
+  updated_on: z.string().default(''),
+  created_on: z.string().default(''),
+  percent_done: z.number().default(0),
+  signed_url: z.string().nullable().default(null),
+  error_message: z.string().nullable().optional(),
+});
+
+const citationReferenceSchema = z.object({
+  file: citationFileSchema,
+  pages: z.array(z.number()),
+  highlight: z.object({
+    type: z.literal('text'),
+    content: z.string(),
+  }).nullable().default(null),
+});
+
+// Validates messages sent to the conversation API
+export const conversationMessageSchema = z.object({
+  id: z.string().min(1),
+  parent_id: z.string().min(1).nullable(),
+  role: z.enum(['assistant', 'user', 'error']),
+  content: z.string(),
+  citations: z.array(z.object({
+    position: z.number(),
+    references: z.array(citationReferenceSchema),
+  })).optional(),
+  stopped: z.boolean().optional(),
+  interrupted: z.boolean().optional(),
+});
+
+export const conversationMessagesSchema = z.object({
+  messages: z.array(conversationMessageSchema).default([]),
+});
+
+export const conversationUpdateSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  pinned: z.boolean().optional(),
+  current_leaf_id: z.string().min(1).nullable().optional(),
+  scope: chatScopeSchema.nullable().optional(),
+});
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileConversationStore } from '@/lib/conversations/fileStore';
+import { MemoryConversationStore } from '@/lib/conversations/memoryStore';
+import type { ConversationStore } from '@/lib/conversations/store';
+import type { AssistantChatMessage } from '@/lib/types';
+
+const message = (id: string, content: string, role: 'user' | 'assistant' = 'user'): AssistantChatMessage => ({
+  id,
+  parent_id: null,
+  role,
+  content,
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversation-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+// Each request opens its own file store, so the file store's specs open a new
+// one per call to check that they share the directory
+describe.each([
+  ['MemoryConversationStore', () => {
+    const store = new MemoryConversationStore();
+    return () => store;
+  }],
+  ['FileConversationStore', () => () => new FileConversationStore(directory)],
+] as const)('%s', (_name, createStoreFactory) => {
+  let openStore: () => ConversationStore;
+
+  beforeEach(() => {
+    openStore = createStoreFactory();
+  });
+
+  it('creates a conversation titled after its first question', async () => {
+    const conversation = await openStore().create([message('q1', 'Why is the sky blue?')]);
+    expect(conversation).toMatchObject({
+      title: 'Why is the sky blue?',
+      pinned: false,
+      current_leaf_id: 'q1',
+    });
+    expect(await openStore().get(conversation.id)).toEqual(conversation);
+  });
+
+  it('returns null for conversations that do not exist', async () => {
+    expect(await openStore().get('missing')).toBeNull();
+    expect(await openStore().append('missing', [message('q1', 'Hello')])).toBeNull();
+    expect(await openStore().update('missing', { pinned: true })).toBeNull();
+    expect(await openStore().delete('missing')).toBe(false);
+  });
+
+  it('lists summaries, pinned first and filtered by a query', async () => {
+    const sky = await openStore().create([message('q1', 'Why is the sky blue?')]);
+    const grass = await openStore().create([message('q2', 'Why is grass green?')]);
+    await openStore().update(sky.id, { pinned: true });
+
+    const summaries = await openStore().list();
+    expect(summaries.map((summary) => summary.id)).toEqual([sky.id, grass.id]);
+    expect(summaries[0]).toMatchObject({ message_count: 1 });
+    expect(summaries[0]).not.toHaveProperty('messages');
+
+    expect((await openStore().list('GRASS')).map((summary) => summary.id)).toEqual([grass.id]);
+  });
+
+  it('appends messages and moves the leaf to the last one', async () => {
+    const { id } = await openStore().create();
+    const updated = await openStore().append(id, [
+      message('q1', 'Why is the sky blue?'),
+      message('a1', 'Rayleigh scattering.', 'assistant'),
+    ]);
+    expect(updated).toMatchObject({ title: 'Why is the sky blue?', current_leaf_id: 'a1' });
+    expect((await openStore().get(id))?.messages.map((m) => m.id)).toEqual(['q1', 'a1']);
+  });
+
+  it('keeps every message when appends run concurrently', async () => {
+    const { id } = await openStore().create();
+    const ids = Array.from({ length: 10 }, (_, i) => `m${i}`);
+    await Promise.all(ids.map((messageId) => openStore().append(id, [message(messageId, messageId)])));
+
+    const conversation = await openStore().get(id);
+    expect(conversation?.messages.map((m) => m.id).sort()).toEqual([...ids].sort());
+  });
+
+  it('updates the title, pin and leaf', async () => {
+    const { id } = await openStore().create([message('q1', 'Hello')]);
+    await openStore().update(id, { title: 'Greeting', pinned: true, current_leaf_id: null });
+    expect(await openStore().get(id)).toMatchObject({
+      title: 'Greeting',
+      pinned: true,
+      current_leaf_id: null,
+    });
+  });
+
+  it('deletes a conversation', async () => {
+    const { id } = await openStore().create([message('q1', 'Hello')]);
+    expect(await openStore().delete(id)).toBe(true);
+    expect(await openStore().get(id)).toBeNull();
+    expect(await openStore().list()).toEqual([]);
+  });
+});
+
+describe('FileConversationStore', () => {
+  it('lists nothing before the directory exists', async () => {
+    expect(await new FileConversationStore(path.join(directory, 'missing')).list()).toEqual([]);
+  });
+
+  it('rejects ids that are not safe file names', async () => {
+    const store = new FileConversationStore(directory);
+    expect(await store.get('../secret')).toBeNull();
+    expect(await store.delete('../secret')).toBe(false);
+  });
+});
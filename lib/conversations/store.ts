@@ -0,0 +1,109 @@
+import type {
+  AssistantChatMessage,
+  AssistantConversation,
+  AssistantConversationSummary,
+  AssistantConversationUpdate,
+} from '@/lib/types';
+
+// Storage adapter for chat conversations. Implementations must be safe to call
+// concurrently for different conversations.
+export interface ConversationStore {
+  create(messages?: AssistantChatMessage[]): Promise<AssistantConversation>;
+  // Optionally filtered to conversations whose title or messages contain `query`
+  list(query?: string): Promise<AssistantConversationSummary[]>;
+  get(id: string): Promise<AssistantConversation | null>;
+  append(id: string, messages: AssistantChatMessage[]): Promise<AssistantConversation | null>;
+  update(id: string, update: AssistantConversationUpdate): Promise<AssistantConversation | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+// Conversation ids end up in file paths and URLs, so only allow a safe charset
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+// Titles come from the first question, cut at a word boundary
+export function deriveTitle(messages: AssistantChatMessage[]): string {
+  const firstQuestion = messages.find((message) => message.role === 'user');
+  if (!firstQuestion) return '';
+
+  const text = firstQuestion.content.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+
+  const truncated = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? truncated.slice(0, lastSpace) : truncated).trimEnd()}…`;
+}
+
+export function createConversation(messages: AssistantChatMessage[] = []): AssistantConversation {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    title: deriveTitle(messages),
+    pinned: false,
+    messages,
+    current_leaf_id: messages.length > 0 ? messages[messages.length - 1].id : null,
+    created_on: now,
+    updated_on: now,
+  };
+}
+
+export function appendMessages(
+  conversation: AssistantConversation,
+  messages: AssistantChatMessage[]
+): AssistantConversation {
+  // Appended messages continue the current branch, so the last one becomes the leaf
+  const allMessages = [...conversation.messages, ...messages];
+  return {
+    ...conversation,
+    title: conversation.title || deriveTitle(allMessages),
+    messages: allMessages,
+    current_leaf_id: messages.length > 0
+      ? messages[messages.length - 1].id
+      : conversation.current_leaf_id,
+    updated_on: new Date().toISOString(),
+  };
+}
+
+export function updateConversation(
+  conversation: AssistantConversation,
+  update: AssistantConversationUpdate
+): AssistantConversation {
+  return {
+    ...conversation,
+    ...update,
+    updated_on: new Date().toISOString(),
+  };
+}
+
+export function toSummary({
+  messages,
+  current_leaf_id: _currentLeafId,
+  scope: _scope,
+  ...conversation
+}: AssistantConversation): AssistantConversationSummary {
+  return {
+    ...conversation,
+    message_count: messages.length,
+  };
+}
+
+export function matchesQuery(conversation: AssistantConversation, query?: string): boolean {
+  const needle = query?.trim().toLowerCase();
+  if (!needle) return true;
+
+  return conversation.title.toLowerCase().includes(needle)
+    || conversation.messages.some((message) => message.content.toLowerCase().includes(needle));
+}
+
+// Pinned first, then most recently updated
+export function sortSummaries(summaries: AssistantConversationSummary[]): AssistantConversationSummary[] {
+  return [...summaries].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updated_on.localeCompare(a.updated_on);
+  });
+}
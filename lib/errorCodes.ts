@@ -0,0 +1,16 @@
+// What went wrong, in terms a caller (or the chat UI) can act on. Kept apart
+// from lib/errors so the browser can use it without the server-only helpers.
+export type AppErrorCode =
+  | 'auth' // Pinecone rejected the API key
+  | 'not_found'
+  | 'rate_limited'
+  | 'model_unavailable'
+  | 'context_too_long'
+  | 'upstream_unavailable' // Pinecone or the model provider is down or unreachable
+  | 'bad_request'
+  | 'internal';
+
+// Rate limits and outages usually pass; anything else would fail again
+export function isTransientErrorCode(code: AppErrorCode | null | undefined) {
+  return code === 'rate_limited' || code === 'upstream_unavailable';
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server';
+import type { AppErrorCode } from '@/lib/errorCodes';
+
+export type { AppErrorCode } from '@/lib/errorCodes';
+
+const APP_ERROR_STATUS: Record<AppErrorCode, number> = {
+  auth: 502,
+  not_found: 404,
+  rate_limited: 429,
+  model_unavailable: 400,
+  context_too_long: 400,
+  upstream_unavailable: 503,
+  bad_request: 400,
+  internal: 500,
+};
+
+const APP_ERROR_MESSAGES: Record<AppErrorCode, string> = {
+  auth: 'The server could not authenticate with Pinecone',
+  not_found: 'Not found',
+  rate_limited: 'Too many requests. Please wait a moment and try again',
+  model_unavailable: 'The selected model is not available',
+  context_too_long: 'The conversation is too long for the model',
+  upstream_unavailable: 'Pinecone is temporarily unavailable',
+  bad_request: 'The request was invalid',
+  internal: 'Internal server error',
+};
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly status: number;
+
+  constructor(code: AppErrorCode, message = APP_ERROR_MESSAGES[code], status = APP_ERROR_STATUS[code]) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// A non-OK response from a Pinecone endpoint we call with fetch rather than
+// the SDK. Keeps the response so its Retry-After can be honored.
+export class UpstreamError extends Error {
+  readonly status: number;
+  readonly response: Response;
+
+  constructor(response: Response, body: string) {
+    super(body || `Status: ${response.status}`);
+    this.name = 'UpstreamError';
+    this.status = response.status;
+    this.response = response;
+  }
+}
+
+// Pinecone's error classes carry no status, so it comes from the class or,
+// for statuses the SDK doesn't map (e.g. 429), from the message
+const PINECONE_ERROR_STATUS: Record<string, number> = {
+  PineconeBadRequestError: 400,
+  PineconeAuthorizationError: 401,
+  PineconeNotFoundError: 404,
+  PineconeConflictError: 409,
+  PineconeInternalServerError: 500,
+  PineconeNotImplementedError: 501,
+  PineconeUnavailableError: 503,
+  PineconeMaxRetriesExceededError: 503,
+  PineconeConnectionError: 503,
+};
+
+function getUpstreamStatus(error: any): number | null {
+  if (error instanceof UpstreamError) return error.status;
+  const status = PINECONE_ERROR_STATUS[error?.name];
+  if (status) return status;
+  const match = String(error?.message ?? '').match(/Status(?: Code)?: (\d{3})/);
+  return match ? Number(match[1]) : null;
+}
+
+// Pinecone messages are often JSON nesting further JSON; digs out the innermost message
+function getUpstreamMessage(error: any): string | null {
+  if (!error?.message) return null;
+
+  let parsed: any;
+  try {
+    parsed = typeof error.message === 'string' ? JSON.parse(error.message) : error.message;
+  } catch {
+    return String(error.message);
+  }
+
+  // Handle nested error structures (Pinecone errors can have multiple levels)
+  while (parsed && typeof parsed === 'object') {
+    if (parsed.error?.message) {
+      try {
+        const inner = typeof parsed.error.message === 'string' ? JSON.parse(parsed.error.message) : parsed.error.message;
+        if (inner?.error?.message) {
+          parsed = inner;
+          continue;
+        }
+      } catch {
+        // Not nested JSON, use it directly
+      }
+      return String(parsed.error.message);
+    }
+    if (parsed.message) return String(parsed.message);
+    if (typeof parsed.error === 'string') return parsed.error;
+    break;
+  }
+  return String(error.message);
+}
+
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|quota/i;
+const CONTEXT_PATTERN = /context.?(length|window)|too (long|many tokens)|maximum.{0,20}tokens|token limit/i;
+const MODEL_PATTERN = /\bmodel\b.{0,40}(not (supported|available|found|enabled)|unavailable|unknown|invalid|deprecated)|(unknown|invalid|unsupported) model/i;
+
+// Turns anything thrown while handling a request into an AppError. Messages
+// from Pinecone are only passed on for requests it rejected as invalid;
+// everything else gets the code's own message, so no URLs or internals leak.
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  const status = getUpstreamStatus(error);
+  const message = getUpstreamMessage(error) ?? '';
+
+  if (status === 401 || status === 403) return new AppError('auth');
+  if (status === 429 || RATE_LIMIT_PATTERN.test(message)) return new AppError('rate_limited');
+  if (status !== null && status >= 500) return new AppError('upstream_unavailable');
+  if (CONTEXT_PATTERN.test(message)) return new AppError('context_too_long');
+  if (MODEL_PATTERN.test(message)) return new AppError('model_unavailable', message);
+  if (status === 404) return new AppError('not_found');
+  if (status !== null && status >= 400) return new AppError('bad_request', message || undefined, status);
+  if ((error as any)?.name === 'TypeError' && message === 'fetch failed') return new AppError('upstream_unavailable');
+  return new AppError('internal');
+}
+
+// JSON error response for a route's catch block: `{ error, code }` with the
+// code's status. `messages` replaces the default message for some codes.
+export function toErrorResponse(error: unknown, messages: Partial<Record<AppErrorCode, string>> = {}) {
+  const appError = toAppError(error);
+  return NextResponse.json(
+    { error: messages[appError.code] ?? appError.message, code: appError.code },
+    { status: appError.status }
+  );
+}
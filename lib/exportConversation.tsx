@@ -0,0 +1,187 @@
+import ReactMarkdown from 'react-markdown';
+import rehypeKatex from 'rehype-katex';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { z } from 'zod';
+import { getThread } from '@/lib/chatTree';
+import { formatCitationReference, getOrderedCitations, insertCitationMarkers } from '@/lib/citations';
+import { conversationMessageSchema } from '@/lib/conversations/schema';
+import { deriveTitle } from '@/lib/conversations/store';
+import type { AssistantChatMessage, AssistantChatSession } from '@/lib/types';
+
+const EXPORT_FORMAT = 'pinecone-assistant-conversation';
+const EXPORT_VERSION = 1;
+
+const ROLE_NAMES: Record<AssistantChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Pinecone',
+  error: 'Error',
+};
+
+const conversationExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  exported_on: z.string(),
+  title: z.string(),
+  messages: z.array(conversationMessageSchema),
+  current_leaf_id: z.string().nullable(),
+});
+
+export type ConversationExport = z.infer<typeof conversationExportSchema>;
+
+export function getExportTitle(session: AssistantChatSession): string {
+  return deriveTitle(getThread(session.messages, session.currentLeafId)) || 'Conversation';
+}
+
+// Markdown for one message, with citations as footnotes at the same positions
+// as the [n] markers in the chat. Labels include the turn so they stay unique.
+function messageToMarkdown(message: AssistantChatMessage, turn: number): string {
+  if (message.role !== 'assistant') {
+    return message.content;
+  }
+
+  const citations = getOrderedCitations(message.content, message.citations);
+  const label = (index: number) => `${turn}-${index + 1}`;
+  let markdown = insertCitationMarkers(message.content, citations, (index) => `[^${label(index)}]`);
+
+  if (message.stopped) {
+    markdown += '\n\n_(Stopped)_';
+  } else if (message.interrupted) {
+    markdown += '\n\n_(Interrupted by an error)_';
+  }
+
+  if (citations.length > 0) {
+    const footnotes = citations.map((citation, index) => {
+      const references = citation.references.map(formatCitationReference).join('; ');
+      return `[^${label(index)}]: ${references}`;
+    });
+    markdown += `\n\n${footnotes.join('\n')}`;
+  }
+
+  return markdown;
+}
+
+// Exports the branch currently shown in the chat
+export function exportConversationMarkdown(session: AssistantChatSession): string {
+  const thread = getThread(session.messages, session.currentLeafId);
+  const sections = thread.map((message, index) =>
+    `## ${ROLE_NAMES[message.role]}\n\n${messageToMarkdown(message, index + 1)}`
+  );
+
+  return [
+    `# ${getExportTitle(session)}`,
+    `_Exported ${new Date().toLocaleString()}_`,
+    ...sections,
+  ].join('\n\n') + '\n';
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0A0A0A; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 1.5rem; }
+  .meta { color: #737373; font-size: 0.875rem; }
+  .message { border-top: 1px solid #E5E5E5; padding: 16px 0; break-inside: avoid; }
+  .role { font-weight: 600; margin-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #E5E5E5; padding: 4px 8px; text-align: left; }
+  pre { background: #F5F5F5; padding: 12px; overflow-x: auto; }
+  .footnotes { font-size: 0.8125rem; color: #737373; }
+  .footnotes h2 { display: none; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+// Self-contained, printable HTML. Math is rendered as MathML so no KaTeX CSS is needed.
+export async function exportConversationHtml(session: AssistantChatSession): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const thread = getThread(session.messages, session.currentLeafId);
+  const title = getExportTitle(session);
+
+  const body = renderToStaticMarkup(
+    <>
+      <h1>{title}</h1>
+      <p className="meta">Exported {new Date().toLocaleString()}</p>
+      {thread.map((message, index) => (
+        <section key={message.id} className="message">
+          <div className="role">{ROLE_NAMES[message.role]}</div>
+          <ReactMarkdown
+            remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }]]}
+            rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]}
+          >
+            {messageToMarkdown(message, index + 1)}
+          </ReactMarkdown>
+        </section>
+      ))}
+    </>
+  );
+
+  const escapedTitle = title
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapedTitle}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// Lossless export of every branch, readable by parseConversationExport
+export function exportConversationJson(session: AssistantChatSession): string {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_on: new Date().toISOString(),
+    title: getExportTitle(session),
+    messages: session.messages,
+    current_leaf_id: session.currentLeafId,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function parseConversationExport(json: string): ConversationExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const parsed = conversationExportSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('File is not a conversation export');
+  }
+
+  const { messages, current_leaf_id } = parsed.data;
+  const leafExists = messages.some((message) => message.id === current_leaf_id);
+  return {
+    ...parsed.data,
+    current_leaf_id: leafExists ? current_leaf_id : messages[messages.length - 1]?.id ?? null,
+  };
+}
+
+export function getExportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+export function saveFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
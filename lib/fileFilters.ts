@@ -0,0 +1,102 @@
+import { AssistantFileStatus, type AssistantFile } from '@/lib/types';
+
+export type FileSort = 'name' | 'created' | 'updated';
+
+export const FILE_SORTS: { value: FileSort; label: string }[] = [
+  { value: 'created', label: 'Newest' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'name', label: 'Name' },
+];
+
+// Statuses offered as filter chips, in display order
+export const FILTERABLE_STATUSES = [
+  AssistantFileStatus.AVAILABLE,
+  AssistantFileStatus.PROCESSING,
+  AssistantFileStatus.PROCESSING_FAILED,
+] as const;
+
+export type FilterableStatus = typeof FILTERABLE_STATUSES[number];
+
+export type FileFilters = {
+  query: string;
+  sort: FileSort;
+  statuses: FilterableStatus[]; // Empty shows every status
+};
+
+export const DEFAULT_FILE_FILTERS: FileFilters = {
+  query: '',
+  sort: 'created',
+  statuses: [],
+};
+
+// Query parameters the Files panel keeps its filters in
+const QUERY_PARAM = 'files_q';
+const SORT_PARAM = 'files_sort';
+const STATUS_PARAM = 'files_status';
+
+function isFileSort(value: string | null): value is FileSort {
+  return FILE_SORTS.some((sort) => sort.value === value);
+}
+
+function isFilterableStatus(value: string): value is FilterableStatus {
+  return (FILTERABLE_STATUSES as readonly string[]).includes(value);
+}
+
+export function parseFileFilters(params: URLSearchParams): FileFilters {
+  const sort = params.get(SORT_PARAM);
+  return {
+    query: params.get(QUERY_PARAM) ?? DEFAULT_FILE_FILTERS.query,
+    sort: isFileSort(sort) ? sort : DEFAULT_FILE_FILTERS.sort,
+    statuses: (params.get(STATUS_PARAM) ?? '').split(',').filter(isFilterableStatus),
+  };
+}
+
+// Query parameter values for the filters; defaults map to null so they're left out
+export function getFileFilterParams(filters: FileFilters): Record<string, string | null> {
+  return {
+    [QUERY_PARAM]: filters.query || null,
+    [SORT_PARAM]: filters.sort === DEFAULT_FILE_FILTERS.sort ? null : filters.sort,
+    [STATUS_PARAM]: filters.statuses.length > 0 ? filters.statuses.join(',') : null,
+  };
+}
+
+function getSearchText(file: AssistantFile) {
+  const metadata = Object.entries(file.metadata || {})
+    .map(([key, value]) => `${key} ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+  return [file.name, ...metadata].join('\n').toLowerCase();
+}
+
+function getTime(date: string) {
+  const time = new Date(date).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+const compareFiles: Record<FileSort, (a: AssistantFile, b: AssistantFile) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+  created: (a, b) => getTime(b.created_on) - getTime(a.created_on),
+  updated: (a, b) => getTime(b.updated_on) - getTime(a.updated_on),
+};
+
+// Files matching the search and status filters, in the chosen order. Every
+// search word must appear in the file's name or metadata.
+export function filterFiles(files: AssistantFile[], filters: FileFilters): AssistantFile[] {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const statuses = new Set<string>(filters.statuses);
+
+  return files
+    .filter((file) => statuses.size === 0 || statuses.has(file.status))
+    .filter((file) => {
+      if (words.length === 0) return true;
+      const text = getSearchText(file);
+      return words.every((word) => text.includes(word));
+    })
+    .sort(compareFiles[filters.sort]);
+}
+
+export function countFilesByStatus(files: AssistantFile[]): Record<FilterableStatus, number> {
+  const counts = Object.fromEntries(FILTERABLE_STATUSES.map((status) => [status, 0])) as Record<FilterableStatus, number>;
+  for (const file of files) {
+    if (isFilterableStatus(file.status)) counts[file.status] += 1;
+  }
+  return counts;
+}
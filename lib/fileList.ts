@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { FILE_LIST_CACHE_TTL_MS, isPendingFile, transformFile } from '@/lib/files';
+import { getAssistant } from '@/lib/pinecone';
+import { withRetry } from '@/lib/retry';
+import type { AssistantFile } from '@/lib/types';
+
+type FileList = {
+  files: AssistantFile[];
+  etag: string;
+};
+
+// Files change rarely, but processing progress should stay fresh while polling
+const PENDING_CACHE_TTL_MS = 2_000;
+
+let cached: { list: FileList; expiresAt: number } | null = null;
+let inflight: Promise<FileList> | null = null;
+// Bumped on invalidation so a list fetched before an upload or delete isn't cached
+let generation = 0;
+
+async function fetchFileList(assistantName: string): Promise<FileList> {
+  const assistant = getAssistant(assistantName);
+  const result = await withRetry(() => assistant.listFiles());
+
+  // SDK returns { files: [...] } with camelCase properties
+  let files: any[] = [];
+  if (result && typeof result === 'object' && 'files' in result) {
+    files = (result.files as any[]) || [];
+  } else if (Array.isArray(result)) {
+    files = result;
+  }
+
+  // Metadata only: signed URLs are resolved per file by /api/files/[fileId]
+  const transformed = files.map((file) => ({ ...transformFile(file), signed_url: null }));
+  const etag = `"${createHash('sha1').update(JSON.stringify(transformed)).digest('base64url')}"`;
+  return { files: transformed, etag };
+}
+
+// Lists the assistant's files from a short-lived cache shared by all requests.
+// Concurrent misses wait for the same listFiles call. The cache is per server
+// instance, so `fresh` lets a client that just changed the files (possibly
+// through another instance) skip it.
+export async function getFileList(assistantName: string, { fresh = false } = {}): Promise<FileList> {
+  if (fresh) {
+    invalidateFileList();
+  } else if (cached && cached.expiresAt > Date.now()) {
+    return cached.list;
+  }
+
+  if (!inflight) {
+    const startedAt = generation;
+    const request: Promise<FileList> = fetchFileList(assistantName)
+      .then((list) => {
+        if (startedAt === generation) {
+          const ttl = list.files.some(isPendingFile) ? PENDING_CACHE_TTL_MS : FILE_LIST_CACHE_TTL_MS;
+          cached = { list, expiresAt: Date.now() + ttl };
+        }
+        return list;
+      })
+      .finally(() => {
+        // An invalidation may already have replaced it with a newer request
+        if (inflight === request) inflight = null;
+      });
+    inflight = request;
+  }
+  return inflight;
+}
+
+// Called after uploads and deletions so the next list reflects them
+export function invalidateFileList() {
+  cached = null;
+  inflight = null;
+  generation += 1;
+}
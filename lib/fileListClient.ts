@@ -0,0 +1,35 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { FILE_LIST_CACHE_TTL_MS } from '@/lib/files';
+import type { AssistantFile, AssistantFilePage } from '@/lib/types';
+
+// When this browser last uploaded, deleted or retried a file
+let changedAt = 0;
+
+export function markFileListChanged() {
+  changedAt = Date.now();
+}
+
+// Each server instance caches the file list, so one that didn't handle a
+// change can serve the old list until its cache expires, overwriting what the
+// UI already shows. Lists fetched in that window ask to skip the cache.
+export function getFileListRequestInit(): RequestInit {
+  return Date.now() - changedAt < FILE_LIST_CACHE_TTL_MS
+    ? { headers: { 'Cache-Control': 'no-cache' } }
+    : {};
+}
+
+// The Files panel caches one list of pages per set of filters
+export type FilesData = InfiniteData<AssistantFilePage, string | null>;
+
+// Applies `update` to the files of every cached page, whatever the filters.
+// `pageIndex` is 0 for the first page, where new files are shown.
+export function updateCachedFiles(
+  queryClient: QueryClient,
+  assistantName: string,
+  update: (files: AssistantFile[], pageIndex: number) => AssistantFile[]
+) {
+  queryClient.setQueriesData<FilesData>({ queryKey: ['files', assistantName] }, (prev) => prev && {
+    ...prev,
+    pages: prev.pages.map((page, pageIndex) => ({ ...page, files: update(page.files, pageIndex) })),
+  });
+}
@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Helpers for stores that keep one JSON file per record
+
+// The parsed contents of `filePath`, or null if it doesn't exist
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Writes to a temp file and renames it over `filePath`, so readers never see
+// a partial file. Temp names are unique, so concurrent writes can't collide.
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { invalidateFileList } from '@/lib/fileList';
+import { DOCUMENT_ID_METADATA_KEY, transformFile } from '@/lib/files';
+import { getAssistant } from '@/lib/pinecone';
+import type { AssistantFile } from '@/lib/types';
+
+type FileUpload = {
+  name: string;
+  data: Uint8Array;
+  metadata?: Record<string, unknown> | null;
+};
+
+// Uploads file content to the assistant. Files are stamped with a generated
+// document id unless the metadata already carries one.
+export async function uploadAssistantFile(
+  assistantName: string,
+  { name, data, metadata }: FileUpload
+): Promise<AssistantFile> {
+  // The SDK uploads from a path and names the file after it, so keep the
+  // original name inside a private temp directory
+  const tempDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'pinecone-upload-'));
+
+  try {
+    const filePath = path.join(tempDirectory, path.basename(name.replace(/\\/g, '/')));
+    await fs.writeFile(filePath, data);
+
+    const assistant = getAssistant(assistantName);
+    const uploaded = await assistant.uploadFile({
+      path: filePath,
+      metadata: { [DOCUMENT_ID_METADATA_KEY]: crypto.randomUUID(), ...metadata },
+    });
+    invalidateFileList();
+
+    return transformFile(uploaded);
+  } finally {
+    await fs.rm(tempDirectory, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,122 @@
+import { AssistantFileStatus, type AssistantFile } from '@/lib/types';
+
+// File types accepted by Pinecone Assistant uploads
+export const UPLOAD_FILE_EXTENSIONS = ['.pdf', '.txt', '.md', '.docx', '.json'];
+
+// Uploads pass through a serverless function, and Vercel rejects request
+// bodies over 4.5 MB; this leaves room for the multipart encoding
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+// How long a server instance reuses the file list it fetched (see lib/fileList)
+export const FILE_LIST_CACHE_TTL_MS = 10_000;
+
+// Chat filters only match file metadata, so files uploaded here get a
+// generated id under this key that a chat can be scoped to
+export const DOCUMENT_ID_METADATA_KEY = 'document_id';
+
+export function getDocumentId(file: Pick<AssistantFile, 'metadata'>): string | null {
+  const value = file.metadata?.[DOCUMENT_ID_METADATA_KEY];
+  return typeof value === 'string' && value ? value : null;
+}
+
+// Uploading changes the assistant's knowledge base, so it is off unless the
+// operator sets ENABLE_FILE_UPLOAD=true, and even then only operators can upload
+export function isFileUploadEnabled() {
+  return process.env.ENABLE_FILE_UPLOAD === 'true';
+}
+
+export function hasUploadExtension(fileName: string) {
+  const name = fileName.toLowerCase();
+  return UPLOAD_FILE_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+// Files still being processed; they settle as Available or ProcessingFailed
+export function isProcessingFile(file: AssistantFile) {
+  return file.status === AssistantFileStatus.PROCESSING;
+}
+
+export function isFailedFile(file: AssistantFile) {
+  return file.status === AssistantFileStatus.PROCESSING_FAILED;
+}
+
+// Date and time for file timestamps, which are ISO strings or empty when unknown
+export function formatFileTime(dateString: string | undefined): string {
+  if (!dateString) return 'Unknown';
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? 'Unknown' : date.toLocaleString();
+}
+
+// Files whose status is still changing, so the list should be polled
+export function isPendingFile(file: AssistantFile) {
+  return isProcessingFile(file) || file.status === AssistantFileStatus.DELETING;
+}
+
+// Files are always fetched through the download proxy, which signs a fresh
+// URL server-side; `inline` asks for a response the browser can render
+export function getFileDownloadUrl(fileId: string, { inline = false } = {}) {
+  const url = `/api/files/${encodeURIComponent(fileId)}/download-file`;
+  return inline ? `${url}?disposition=inline` : url;
+}
+
+export type FilePreviewType = 'pdf' | 'text';
+
+// How the document viewer can show a file, or null if it can't
+export function getFilePreviewType(fileName: string): FilePreviewType | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.pdf')) return 'pdf';
+  if (['.txt', '.md', '.json'].some((extension) => name.endsWith(extension))) return 'text';
+  return null;
+}
+
+// Content types for supported uploads, used when storage reports a generic type
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.json': 'application/json; charset=utf-8',
+};
+
+export function getContentType(fileName: string, reported?: string | null) {
+  if (reported && reported !== 'application/octet-stream') return reported;
+  const name = fileName.toLowerCase();
+  const extension = Object.keys(CONTENT_TYPES).find((candidate) => name.endsWith(candidate));
+  return extension ? CONTENT_TYPES[extension] : 'application/octet-stream';
+}
+
+// Content-Disposition with an ASCII fallback name and the exact name as an
+// RFC 5987 `filename*` parameter, which browsers prefer
+export function formatContentDisposition(type: 'attachment' | 'inline', fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Transform SDK camelCase response to snake_case format expected by frontend
+export function transformFile(file: any): AssistantFile {
+  // SDK returns camelCase (updatedOn, createdOn, percentDone, etc.) where dates are Date objects
+  // Transform to snake_case (updated_on, created_on, percent_done, etc.) where dates are ISO strings
+  
+  // Helper to convert Date object or string to ISO string
+  const toDateString = (date: Date | string | undefined): string => {
+    if (!date) return '';
+    if (date instanceof Date) return date.toISOString();
+    if (typeof date === 'string') return date;
+    return '';
+  };
+  
+  return {
+    status: file.status || file.Status,
+    id: file.id || file.Id,
+    name: file.name || file.Name,
+    metadata: file.metadata || file.Metadata || null,
+    updated_on: toDateString(file.updatedOn || file.updated_on || file.UpdatedOn),
+    created_on: toDateString(file.createdOn || file.created_on || file.CreatedOn),
+    percent_done: file.percentDone || file.percent_done || file.PercentDone || 0,
+    signed_url: file.signedUrl || file.signed_url || file.SignedUrl || null,
+    error_message: file.errorMessage || file.error_message || file.ErrorMessage || null,
+  };
+}
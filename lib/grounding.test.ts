@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getGrounding, getSentences } from '@/lib/grounding';
+
+// The text of each sentence range, to check offsets against the source
+function sentenceTexts(markdown: string) {
+  return getSentences(markdown).map(({ start, end }) => markdown.slice(start, end));
+}
+
+describe('getSentences', () => {
+  it('splits paragraphs into sentences without surrounding whitespace', () => {
+    expect(sentenceTexts('The sky is blue.  Grass is green! Is it?')).toEqual([
+      'The sky is blue.',
+      'Grass is green!',
+      'Is it?',
+    ]);
+  });
+
+  it('keeps list items and table cells apart and skips headings and code', () => {
+    const markdown = [
+      '# Colors',
+      '',
+      '- Sky is blue',
+      '- Grass is green',
+      '',
+      '```',
+      'const color = "red";',
+      '```',
+      '',
+      '| Name | Color |',
+      '| --- | --- |',
+      '| Sky | blue |',
+    ].join('\n');
+    expect(sentenceTexts(markdown)).toEqual(['Sky is blue', 'Grass is green', 'Name', 'Color', 'Sky', 'blue']);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    const { Segmenter } = Intl;
+
+    beforeEach(() => {
+      delete (Intl as { Segmenter?: unknown }).Segmenter;
+    });
+
+    afterEach(() => {
+      (Intl as { Segmenter?: unknown }).Segmenter = Segmenter;
+    });
+
+    it('breaks after terminal punctuation followed by whitespace', () => {
+      expect(sentenceTexts('The sky is blue. Grass is green!! Is it?')).toEqual([
+        'The sky is blue.',
+        'Grass is green!!',
+        'Is it?',
+      ]);
+    });
+
+    it('keeps punctuation that is not followed by whitespace inside the sentence', () => {
+      expect(sentenceTexts('Version 1.2 is out. See example.com now')).toEqual([
+        'Version 1.2 is out.',
+        'See example.com now',
+      ]);
+    });
+
+    it('leaves out segments without words', () => {
+      expect(sentenceTexts('Done. ... !')).toEqual(['Done.']);
+    });
+  });
+});
+
+describe('getGrounding', () => {
+  const content = 'The sky is blue. Grass is green. Snow is white.';
+
+  it('marks the sentence before each citation as cited', () => {
+    const grounding = getGrounding(content, [
+      { position: content.indexOf(' Grass'), references: [] },
+      { position: content.length, references: [] },
+    ]);
+    expect(grounding.sentences).toEqual([
+      { start: 0, end: 16, cited: true },
+      { start: 17, end: 32, cited: false },
+      { start: 33, end: 47, cited: true },
+    ]);
+    expect(grounding.citedCount).toBe(2);
+    expect(grounding.score).toBeCloseTo(2 / 3);
+  });
+
+  it('credits a citation inside a sentence to that sentence', () => {
+    const grounding = getGrounding(content, [{ position: content.indexOf('green'), references: [] }]);
+    expect(grounding.sentences.map(({ cited }) => cited)).toEqual([false, true, false]);
+  });
+
+  it('ignores citations before the first sentence', () => {
+    const grounding = getGrounding(content, [{ position: 0, references: [] }]);
+    expect(grounding.citedCount).toBe(0);
+    expect(grounding.score).toBe(0);
+  });
+
+  it('has no score without sentences', () => {
+    expect(getGrounding('```\ncode only\n```')).toEqual({ sentences: [], citedCount: 0, score: null });
+  });
+});
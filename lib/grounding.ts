@@ -0,0 +1,158 @@
+import type { Root } from 'mdast';
+import type { Literal, Node, Parent } from 'unist';
+import { isParent, parseMarkdown, sliceTextNode } from '@/lib/markdown';
+import type { AssistantChatMessageCitation } from '@/lib/types';
+
+// A sentence of an answer, as offsets into its markdown source
+export type GroundedSentence = {
+  start: number;
+  end: number;
+  cited: boolean;
+};
+
+export type Grounding = {
+  sentences: GroundedSentence[];
+  citedCount: number;
+  score: number | null; // Share of sentences with a citation, 0-1; null when there are none
+};
+
+// Class given to uncited sentences in the grounding view
+export const UNCITED_CLASS = 'uncited-sentence';
+
+// Blocks whose text makes claims; headings, code and math don't need a source
+const PROSE_BLOCKS = new Set(['paragraph', 'tableCell']);
+
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]', 'u');
+
+function collectProseBlocks(node: Node, blocks: [number, number][]) {
+  if (PROSE_BLOCKS.has(node.type)) {
+    // A table cell's position includes its pipes, so take its content's
+    const children = isParent(node) ? node.children : [];
+    const first = node.type === 'tableCell' ? children[0] : node;
+    const last = node.type === 'tableCell' ? children[children.length - 1] : node;
+    const start = first?.position?.start.offset;
+    const end = last?.position?.end.offset;
+    if (start !== undefined && end !== undefined) blocks.push([start, end]);
+    return;
+  }
+  if (isParent(node)) {
+    node.children.forEach((child) => collectProseBlocks(child, blocks));
+  }
+}
+
+function segmentSentences(text: string): { index: number; segment: string }[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'sentence' }).segment(text));
+  }
+  // Older browsers: break after terminal punctuation followed by whitespace.
+  // Other punctuation, as in "1.5", stays inside the sentence.
+  const segments: { index: number; segment: string }[] = [];
+  const pattern = /(?:[^.!?]|[.!?]+(?!\s|$))+[.!?]*\s*/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null && match[0]) {
+    segments.push({ index: match.index, segment: match[0] });
+  }
+  return segments;
+}
+
+// Splits markdown into sentences, block by block so list items and table
+// cells stand alone. Whitespace around each sentence is left out of its range.
+export function getSentences(markdown: string): { start: number; end: number }[] {
+  const blocks: [number, number][] = [];
+  collectProseBlocks(parseMarkdown(markdown), blocks);
+
+  return blocks.flatMap(([blockStart, blockEnd]) =>
+    segmentSentences(markdown.slice(blockStart, blockEnd))
+      .filter(({ segment }) => WORD_PATTERN.test(segment))
+      .map(({ index, segment }) => {
+        const leading = segment.length - segment.trimStart().length;
+        return {
+          start: blockStart + index + leading,
+          end: blockStart + index + segment.trimEnd().length,
+        };
+      })
+  );
+}
+
+// Decides which sentences of an answer carry a citation. A citation backs
+// the sentence it follows, i.e. the last sentence starting before it.
+export function getGrounding(content: string, citations?: AssistantChatMessageCitation[]): Grounding {
+  const sentences = getSentences(content).map((sentence) => ({ ...sentence, cited: false }));
+
+  for (const citation of citations ?? []) {
+    let cited: GroundedSentence | undefined;
+    for (const sentence of sentences) {
+      if (sentence.start >= citation.position) break;
+      cited = sentence;
+    }
+    if (cited) cited.cited = true;
+  }
+
+  const citedCount = sentences.filter((sentence) => sentence.cited).length;
+  return {
+    sentences,
+    citedCount,
+    score: sentences.length > 0 ? citedCount / sentences.length : null,
+  };
+}
+
+function createUncitedNode(children: Node[]): Node {
+  return {
+    type: 'uncited',
+    children,
+    data: { hName: 'span', hProperties: { className: [UNCITED_CLASS] } },
+  } as Parent;
+}
+
+export type RemarkGroundingOptions = {
+  ranges: { start: number; end: number }[]; // Source offsets of the uncited sentences
+};
+
+// Remark plugin wrapping the text of uncited sentences in a span with
+// UNCITED_CLASS. Runs after remarkCitations, whose split text keeps its offsets.
+export function remarkGrounding({ ranges }: RemarkGroundingOptions) {
+  return (tree: Root, file: { value: unknown }) => {
+    if (ranges.length === 0) return;
+    const source = String(file.value);
+
+    const visit = (parent: Parent) => {
+      for (let i = 0; i < parent.children.length; i++) {
+        const node = parent.children[i];
+        if (isParent(node)) {
+          visit(node);
+          continue;
+        }
+
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        if (node.type !== 'text' || start === undefined || end === undefined) continue;
+
+        const text = node as Literal<string>;
+        const overlapping = ranges.filter((range) => range.start < end && range.end > start);
+        if (overlapping.length === 0) continue;
+
+        // Text differing from its source (escapes, entities) is marked whole
+        if (text.value !== source.slice(start, end)) {
+          parent.children[i] = createUncitedNode([text]);
+          continue;
+        }
+
+        const replacement: Node[] = [];
+        let cursor = start;
+        for (const range of overlapping) {
+          const from = Math.max(range.start, start);
+          const to = Math.min(range.end, end);
+          if (from > cursor) replacement.push(sliceTextNode(text, cursor, from));
+          replacement.push(createUncitedNode([sliceTextNode(text, from, to)]));
+          cursor = to;
+        }
+        if (cursor < end) replacement.push(sliceTextNode(text, cursor, end));
+
+        parent.children.splice(i, 1, ...replacement);
+        i += replacement.length - 1;
+      }
+    };
+
+    visit(tree as Parent);
+  };
+}
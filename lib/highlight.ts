@@ -0,0 +1,45 @@
+// Citation highlights are plain text extracted by the assistant, so they rarely
+// match a document character for character: PDFs split words across text runs
+// and markdown adds markup. Matching compares words only, in order, ignoring
+// case and whatever separates them.
+
+// Built with RegExp because the tsconfig target predates the `u` flag literal
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+const SEPARATOR = '[^\\p{L}\\p{N}]*';
+
+// Long highlights fall back to matching their opening words
+const PREFIX_WORDS = 12;
+
+export type TextRange = { start: number; end: number };
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchWords(text: string, words: string[]): TextRange | null {
+  const pattern = new RegExp(words.map(escapeRegExp).join(SEPARATOR), 'iu');
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+export function findHighlightRange(text: string, highlight: string | null | undefined): TextRange | null {
+  const words = highlight?.match(WORD_PATTERN);
+  if (!words) return null;
+
+  return matchWords(text, words)
+    ?? (words.length > PREFIX_WORDS ? matchWords(text, words.slice(0, PREFIX_WORDS)) : null);
+}
+
+// Indexes of the parts (e.g. PDF text runs) that overlap a range of their concatenation
+export function getPartsInRange(parts: string[], range: TextRange): number[] {
+  const indexes: number[] = [];
+  let offset = 0;
+  parts.forEach((part, index) => {
+    const end = offset + part.length;
+    if (part.length > 0 && end > range.start && offset < range.end) {
+      indexes.push(index);
+    }
+    offset = end;
+  });
+  return indexes;
+}
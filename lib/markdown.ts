@@ -0,0 +1,33 @@
+import type { Root } from 'mdast';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+import type { Literal, Node, Parent, Position } from 'unist';
+
+// Parses markdown the way chat messages are rendered
+export function parseMarkdown(markdown: string): Root {
+  return unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath, { singleDollarTextMath: false })
+    .parse(markdown);
+}
+
+export const isParent = (node: Node): node is Parent => Array.isArray((node as Parent).children);
+
+// A text node for `value`, the part of `original` between two source offsets.
+// Plugins that split text use it so later plugins can still map the pieces
+// back to the source; only the offsets of the position are exact.
+export function sliceTextNode(original: Literal<string>, start: number, end: number): Literal<string> {
+  const base = original.position?.start.offset ?? 0;
+  const value = original.value.slice(start - base, end - base);
+  if (!original.position) {
+    return { type: 'text', value };
+  }
+  const position: Position = {
+    start: { ...original.position.start, offset: start },
+    end: { ...original.position.start, offset: end },
+  };
+  return { type: 'text', value, position };
+}
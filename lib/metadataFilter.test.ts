@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { DOCUMENT_ID_METADATA_KEY } from '@/lib/files';
+import {
+  buildMetadataFilter,
+  collectMetadataFields,
+  formatMetadataFilter,
+  MAX_FIELD_VALUES,
+  metadataFilterSchema,
+  parseMetadataFilter,
+  type MetadataCondition,
+  type MetadataFilter,
+} from '@/lib/metadataFilter';
+
+// A filter nested `depth` levels of $and deep around one field condition
+function nest(depth: number): MetadataFilter {
+  let filter: MetadataFilter = { year: { $gte: 2020 } };
+  for (let i = 0; i < depth; i++) filter = { $and: [filter] };
+  return filter;
+}
+
+describe('metadataFilterSchema', () => {
+  it.each([
+    ['a bare value', { team: 'search' }],
+    ['comparison operators', { year: { $gte: 2020, $lt: 2025 } }],
+    ['$in and $exists', { team: { $in: ['search', 'ads'] }, draft: { $exists: false } }],
+    ['$and and $or', { $or: [{ team: 'search' }, { $and: [{ year: 2024 }, { draft: false }] }] }],
+    ['nesting up to the depth limit', nest(4)],
+  ])('accepts %s', (_label, filter) => {
+    expect(metadataFilterSchema.safeParse(filter).success).toBe(true);
+  });
+
+  it.each([
+    ['an empty filter', {}],
+    ['an unknown operator', { year: { $regex: '20.*' } }],
+    ['an operator as a field key', { $not: { year: 2020 } }],
+    ['an empty operator object', { year: {} }],
+    ['an empty $in list', { team: { $in: [] } }],
+    ['a range bound that is not a number', { year: { $gt: '2020' } }],
+    ['an object value', { team: { name: 'search' } }],
+    ['$and mixed with field conditions', { $and: [{ year: 2020 }], team: 'search' }],
+    ['nesting past the depth limit', nest(5)],
+  ])('rejects %s', (_label, filter) => {
+    expect(metadataFilterSchema.safeParse(filter).success).toBe(false);
+  });
+});
+
+describe('collectMetadataFields', () => {
+  it('collects keys with their sorted distinct values and file counts', () => {
+    const fields = collectMetadataFields([
+      { metadata: { team: 'search', year: 2024, tags: ['b', 'a'] } },
+      { metadata: { team: 'ads', year: 2020, draft: true } },
+      { metadata: { team: 'search', tags: ['a'] } },
+      { metadata: null },
+    ]);
+    expect(fields).toEqual([
+      { key: 'draft', type: 'boolean', values: [true], file_count: 1 },
+      { key: 'tags', type: 'string', values: ['a', 'b'], file_count: 2 },
+      { key: 'team', type: 'string', values: ['ads', 'search'], file_count: 3 },
+      { key: 'year', type: 'number', values: [2020, 2024], file_count: 2 },
+    ]);
+  });
+
+  it('skips keys with mixed types, objects and document ids', () => {
+    const fields = collectMetadataFields([
+      { metadata: { mixed: 'one', nested: { a: 1 }, [DOCUMENT_ID_METADATA_KEY]: 'doc-1' } },
+      { metadata: { mixed: 2 } },
+    ]);
+    expect(fields).toEqual([]);
+  });
+
+  it('caps the values sent for a key', () => {
+    const files = Array.from({ length: MAX_FIELD_VALUES + 10 }, (_, i) => ({ metadata: { page: i } }));
+    const [field] = collectMetadataFields(files);
+    expect(field.values).toHaveLength(MAX_FIELD_VALUES);
+    expect(field.file_count).toBe(MAX_FIELD_VALUES + 10);
+  });
+});
+
+describe('buildMetadataFilter', () => {
+  const conditions: MetadataCondition[] = [
+    { key: 'team', operator: 'eq', value: 'search' },
+    { key: 'tags', operator: 'in', values: ['a', 'b'] },
+    { key: 'year', operator: 'range', min: 2020, max: null },
+  ];
+
+  it('serialises one condition without $and', () => {
+    expect(buildMetadataFilter([conditions[0]])).toEqual({ team: { $eq: 'search' } });
+  });
+
+  it('combines conditions with $and, leaving out incomplete ones', () => {
+    const filter = buildMetadataFilter([
+      ...conditions,
+      { key: '', operator: 'eq', value: 'ignored' },
+      { key: 'pages', operator: 'range', min: null, max: null },
+    ]);
+    expect(filter).toEqual({
+      $and: [
+        { team: { $eq: 'search' } },
+        { tags: { $in: ['a', 'b'] } },
+        { year: { $gte: 2020 } },
+      ],
+    });
+    expect(metadataFilterSchema.safeParse(filter).success).toBe(true);
+  });
+
+  it('returns null without complete conditions', () => {
+    expect(buildMetadataFilter([{ key: 'team', operator: 'in', values: [] }])).toBeNull();
+  });
+
+  it('reads its filters back into the same conditions', () => {
+    expect(parseMetadataFilter(buildMetadataFilter(conditions)!)).toEqual(conditions);
+  });
+
+  it('labels filters, falling back to JSON for ones the builder cannot express', () => {
+    expect(formatMetadataFilter(buildMetadataFilter(conditions)!)).toBe('team = search · tags in a, b · year ≥ 2020');
+    const filter = { $or: [{ team: 'search' }, { team: 'ads' }] };
+    expect(parseMetadataFilter(filter)).toBeNull();
+    expect(formatMetadataFilter(filter)).toBe(JSON.stringify(filter));
+  });
+});
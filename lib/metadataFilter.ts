@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { DOCUMENT_ID_METADATA_KEY } from '@/lib/files';
+import type { AssistantFile } from '@/lib/types';
+
+export type MetadataValue = string | number | boolean;
+
+export type MetadataFieldType = 'string' | 'number' | 'boolean';
+
+// A metadata key found on the assistant's files, with the distinct values seen
+export interface MetadataField {
+  key: string;
+  type: MetadataFieldType;
+  values: MetadataValue[];
+  file_count: number;
+}
+
+// One row of the filter builder. Range bounds are inclusive; either may be open.
+export type MetadataCondition =
+  | { key: string; operator: 'eq'; value: MetadataValue }
+  | { key: string; operator: 'in'; values: MetadataValue[] }
+  | { key: string; operator: 'range'; min: number | null; max: number | null };
+
+export type MetadataFilter = Record<string, unknown>;
+
+// Enough to pick from without sending every value of a high-cardinality key
+export const MAX_FIELD_VALUES = 100;
+
+const MAX_FILTER_DEPTH = 4;
+const MAX_IN_VALUES = 100;
+
+const scalarSchema = z.union([z.string().max(1000), z.number().finite(), z.boolean()]);
+
+const operatorSchema = z.object({
+  $eq: scalarSchema,
+  $ne: scalarSchema,
+  $gt: z.number().finite(),
+  $gte: z.number().finite(),
+  $lt: z.number().finite(),
+  $lte: z.number().finite(),
+  $in: z.array(scalarSchema).min(1).max(MAX_IN_VALUES),
+  $nin: z.array(scalarSchema).min(1).max(MAX_IN_VALUES),
+  $exists: z.boolean(),
+})
+  .partial()
+  .strict()
+  .refine((operators) => Object.keys(operators).length > 0, 'Expected at least one operator');
+
+const fieldKeySchema = z.string().min(1).max(256).refine((key) => !key.startsWith('$'), 'Unknown operator');
+
+function filterSchemaAtDepth(depth: number): z.ZodType<MetadataFilter> {
+  const fields = z.record(fieldKeySchema, z.union([scalarSchema, operatorSchema]));
+  if (depth >= MAX_FILTER_DEPTH) {
+    return fields;
+  }
+  const nested = z.lazy(() => filterSchemaAtDepth(depth + 1));
+  return z.union([
+    z.object({ $and: z.array(nested).min(1).max(MAX_IN_VALUES) }).strict(),
+    z.object({ $or: z.array(nested).min(1).max(MAX_IN_VALUES) }).strict(),
+    fields,
+  ]);
+}
+
+// The subset of Pinecone's metadata filter language accepted from clients:
+// field conditions using $eq/$ne/$gt/$gte/$lt/$lte/$in/$nin/$exists, combined
+// with $and/$or a few levels deep
+export const metadataFilterSchema = filterSchemaAtDepth(0)
+  .refine((filter) => Object.keys(filter).length > 0, 'Filter is empty');
+
+function getValueType(value: unknown): MetadataFieldType | null {
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number' && Number.isFinite(value)) return 'number';
+  return null;
+}
+
+function compareValues(a: MetadataValue, b: MetadataValue) {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Collects the filterable metadata keys across files. List values count each
+// entry; keys holding objects or mixed types are skipped. Document ids
+// are left out since files are scoped by selecting them instead.
+export function collectMetadataFields(files: Pick<AssistantFile, 'metadata'>[]): MetadataField[] {
+  // A null type marks a key with values that can't be filtered on
+  const found = new Map<string, { types: Set<MetadataFieldType | null>; values: Set<MetadataValue>; fileCount: number }>();
+
+  for (const file of files) {
+    for (const [key, raw] of Object.entries(file.metadata || {})) {
+      if (key === DOCUMENT_ID_METADATA_KEY) continue;
+
+      const entry = found.get(key) ?? { types: new Set(), values: new Set(), fileCount: 0 };
+      found.set(key, entry);
+      entry.fileCount += 1;
+
+      for (const value of Array.isArray(raw) ? raw : [raw]) {
+        const type = getValueType(value);
+        entry.types.add(type);
+        if (type) entry.values.add(value);
+      }
+    }
+  }
+
+  const fields: MetadataField[] = [];
+  for (const [key, entry] of Array.from(found.entries())) {
+    const [type] = Array.from(entry.types);
+    if (entry.types.size !== 1 || !type) continue;
+    fields.push({
+      key,
+      type,
+      values: Array.from(entry.values).sort(compareValues).slice(0, MAX_FIELD_VALUES),
+      file_count: entry.fileCount,
+    });
+  }
+  return fields.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// Reads a typed value (e.g. from a text input) as the field's type
+export function coerceMetadataValue(type: MetadataFieldType, raw: string | MetadataValue): MetadataValue | null {
+  if (typeof raw !== 'string') return raw;
+  const text = raw.trim();
+  if (!text) return null;
+  switch (type) {
+    case 'number': {
+      const number = Number(text);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : null;
+    default:
+      return text;
+  }
+}
+
+export function isCompleteCondition(condition: MetadataCondition) {
+  if (!condition.key) return false;
+  switch (condition.operator) {
+    case 'eq':
+      return condition.value !== '';
+    case 'in':
+      return condition.values.length > 0;
+    case 'range':
+      return condition.min !== null || condition.max !== null;
+  }
+}
+
+function conditionToFilter(condition: MetadataCondition): MetadataFilter {
+  switch (condition.operator) {
+    case 'eq':
+      return { [condition.key]: { $eq: condition.value } };
+    case 'in':
+      return { [condition.key]: { $in: condition.values } };
+    case 'range': {
+      const bounds: Record<string, number> = {};
+      if (condition.min !== null) bounds.$gte = condition.min;
+      if (condition.max !== null) bounds.$lte = condition.max;
+      return { [condition.key]: bounds };
+    }
+  }
+}
+
+// Combines builder rows into a filter that matches files meeting every condition
+export function buildMetadataFilter(conditions: MetadataCondition[]): MetadataFilter | null {
+  const parts = conditions.filter(isCompleteCondition).map(conditionToFilter);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : { $and: parts };
+}
+
+// Reads a filter made by buildMetadataFilter back into builder rows. Returns
+// null for filters the builder can't express, e.g. ones using $or.
+export function parseMetadataFilter(filter: MetadataFilter): MetadataCondition[] | null {
+  const parts = Array.isArray(filter.$and) ? filter.$and as MetadataFilter[] : [filter];
+  const conditions: MetadataCondition[] = [];
+
+  for (const part of parts) {
+    const entries = Object.entries(part);
+    if (entries.length !== 1) return null;
+    const [key, expression] = entries[0];
+    if (key.startsWith('$')) return null;
+
+    if (getValueType(expression)) {
+      conditions.push({ key, operator: 'eq', value: expression as MetadataValue });
+      continue;
+    }
+    if (!expression || typeof expression !== 'object') return null;
+
+    const operators = expression as Record<string, unknown>;
+    const names = Object.keys(operators).sort().join(',');
+    if (names === '$eq') {
+      conditions.push({ key, operator: 'eq', value: operators.$eq as MetadataValue });
+    } else if (names === '$in') {
+      conditions.push({ key, operator: 'in', values: operators.$in as MetadataValue[] });
+    } else if (['$gte', '$lte', '$gte,$lte'].includes(names)) {
+      conditions.push({
+        key,
+        operator: 'range',
+        min: typeof operators.$gte === 'number' ? operators.$gte : null,
+        max: typeof operators.$lte === 'number' ? operators.$lte : null,
+      });
+    } else {
+      return null;
+    }
+  }
+
+  return conditions;
+}
+
+function formatCondition(condition: MetadataCondition) {
+  switch (condition.operator) {
+    case 'eq':
+      return `${condition.key} = ${condition.value}`;
+    case 'in':
+      return `${condition.key} in ${condition.values.join(', ')}`;
+    case 'range':
+      if (condition.min === null) return `${condition.key} ≤ ${condition.max}`;
+      if (condition.max === null) return `${condition.key} ≥ ${condition.min}`;
+      return `${condition.key} ${condition.min}–${condition.max}`;
+  }
+}
+
+// A short label for a filter, falling back to its JSON when the builder
+// can't express it
+export function formatMetadataFilter(filter: MetadataFilter) {
+  const conditions = parseMetadataFilter(filter);
+  return conditions ? conditions.map(formatCondition).join(' · ') : JSON.stringify(filter);
+}
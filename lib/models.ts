@@ -0,0 +1,52 @@
+// Models supported by Pinecone Assistant chat
+export const VALID_MODELS = [
+  'gpt-4o',
+  'gpt-4.1',
+  'o4-mini',
+  'claude-3-5-sonnet',
+  'claude-3-7-sonnet',
+  'gemini-2.5-pro',
+] as const;
+
+export type ValidModel = typeof VALID_MODELS[number];
+
+export const DEFAULT_MODEL: ValidModel = 'gpt-4o';
+
+export function isValidModel(model: unknown): model is ValidModel {
+  return typeof model === 'string' && VALID_MODELS.includes(model as ValidModel);
+}
+
+// Models offered in the picker. ALLOWED_MODELS is a comma-separated subset of
+// VALID_MODELS; unknown entries are ignored and an empty list means all models.
+export function getAllowedModels(): ValidModel[] {
+  const allowed = (process.env.ALLOWED_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(isValidModel);
+
+  return allowed.length > 0 ? allowed : [...VALID_MODELS];
+}
+
+export function getDefaultModel(): ValidModel {
+  const allowedModels = getAllowedModels();
+  const envModel = process.env.MODEL;
+
+  // If MODEL is set, valid and allowed, use it
+  if (isValidModel(envModel) && allowedModels.includes(envModel)) {
+    return envModel;
+  }
+
+  // Fallback to default, or the first allowed model if the default is excluded
+  return allowedModels.includes(DEFAULT_MODEL) ? DEFAULT_MODEL : allowedModels[0];
+}
+
+// Why a requested model can't be used, or null if it can
+export function getModelError(model: unknown): string | null {
+  if (!isValidModel(model)) {
+    return `Unknown model: ${model}`;
+  }
+  if (!getAllowedModels().includes(model)) {
+    return `Model is not enabled for this deployment: ${model}`;
+  }
+  return null;
+}
@@ -0,0 +1,182 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { collectChat, type ChatEvent } from '@/lib/chatStream';
+import { type AppError, toAppError } from '@/lib/errors';
+import type { AssistantChatMessageCitation } from '@/lib/types';
+
+// The subset of an OpenAI chat completions request the assistant can honor.
+// Other fields clients send by default (max_tokens, n, tools, ...) are ignored.
+export const openAIChatRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(z.object({
+    role: z.enum(['system', 'developer', 'user', 'assistant']),
+    content: z.union([
+      z.string(),
+      z.array(z.object({ type: z.string(), text: z.string().optional() })),
+    ]).nullable(),
+  })).min(1),
+  stream: z.boolean().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  response_format: z.object({
+    type: z.enum(['text', 'json_object']),
+  }).optional(),
+});
+
+export type OpenAIChatRequest = z.infer<typeof openAIChatRequestSchema>;
+
+type OpenAIFinishReason = 'stop' | 'length' | 'content_filter';
+
+type OpenAIUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+// Citations are an extension: OpenAI clients ignore the field, others can read it.
+// Positions are offsets into the completion's content, as in /api/chat.
+export type OpenAIChatCompletion = {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: {
+    index: 0;
+    message: { role: 'assistant'; content: string };
+    finish_reason: OpenAIFinishReason;
+  }[];
+  usage: OpenAIUsage | null;
+  citations: AssistantChatMessageCitation[];
+};
+
+export type OpenAIChatCompletionChunk = {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: 0;
+    delta: { role?: 'assistant'; content?: string };
+    finish_reason: OpenAIFinishReason | null;
+  }[];
+  usage?: OpenAIUsage | null;
+  citations?: AssistantChatMessageCitation[];
+};
+
+// OpenAI's error body. Our AppError code goes in `code`.
+export function toOpenAIError(error: AppError) {
+  const type = error.code === 'rate_limited'
+    ? 'rate_limit_error'
+    : error.status < 500 ? 'invalid_request_error' : 'server_error';
+  return { error: { message: error.message, type, param: null, code: error.code } };
+}
+
+export function toOpenAIErrorResponse(error: unknown) {
+  const appError = toAppError(error);
+  return NextResponse.json(toOpenAIError(appError), { status: appError.status });
+}
+
+function getText(content: OpenAIChatRequest['messages'][number]['content']) {
+  if (typeof content === 'string') return content;
+  return (content ?? [])
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+// The assistant only takes user and assistant turns. System and developer
+// instructions are prefixed to the user message that follows them.
+export function toAssistantMessages(messages: OpenAIChatRequest['messages']) {
+  const converted: { role: 'user' | 'assistant'; content: string }[] = [];
+  let instructions: string[] = [];
+
+  for (const message of messages) {
+    const text = getText(message.content);
+    if (message.role === 'system' || message.role === 'developer') {
+      if (text) instructions.push(text);
+      continue;
+    }
+    if (message.role === 'user' && instructions.length > 0) {
+      converted.push({ role: 'user', content: [...instructions, text].join('\n\n') });
+      instructions = [];
+      continue;
+    }
+    converted.push({ role: message.role, content: text });
+  }
+
+  // Instructions with no question after them still need sending
+  if (instructions.length > 0) {
+    converted.push({ role: 'user', content: instructions.join('\n\n') });
+  }
+  return converted;
+}
+
+function toFinishReason(reason: string | undefined): OpenAIFinishReason {
+  return reason === 'length' || reason === 'content_filter' ? reason : 'stop';
+}
+
+// Maps assistant events onto completion chunks. Content and citations stream
+// as they arrive; the last chunk carries the finish reason and usage, and is
+// sent even if the assistant's stream ends without message_end.
+export async function* toCompletionChunks(
+  events: AsyncIterable<ChatEvent>,
+  model: string
+): AsyncGenerator<OpenAIChatCompletionChunk> {
+  let id = `chatcmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const chunk = (
+    delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+    extra: Partial<OpenAIChatCompletionChunk> = {},
+    finishReason: OpenAIFinishReason | null = null
+  ): OpenAIChatCompletionChunk => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...extra,
+  });
+
+  let finished = false;
+  for await (const event of events) {
+    switch (event.type) {
+      case 'message_start':
+        if (event.id) id = `chatcmpl-${event.id}`;
+        if (event.model) model = event.model;
+        yield chunk({ role: 'assistant', content: '' });
+        break;
+      case 'content_chunk':
+        if (event.delta.content) yield chunk({ content: event.delta.content });
+        break;
+      case 'citation':
+        yield chunk({}, { citations: [event.citation] });
+        break;
+      case 'message_end':
+        finished = true;
+        yield chunk({}, { usage: event.usage ?? null }, toFinishReason(event.finish_reason));
+        break;
+    }
+  }
+
+  if (!finished) {
+    yield chunk({}, { usage: null }, 'stop');
+  }
+}
+
+// Reads the whole answer and returns it as a single completion
+export async function toCompletion(events: AsyncIterable<ChatEvent>, model: string): Promise<OpenAIChatCompletion> {
+  const response = await collectChat(events);
+  return {
+    id: `chatcmpl-${response.id ?? crypto.randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: response.model ?? model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: response.content },
+      finish_reason: toFinishReason(response.finish_reason ?? undefined),
+    }],
+    usage: response.usage ?? null,
+    citations: response.citations,
+  };
+}
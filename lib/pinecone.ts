@@ -1,11 +1,18 @@
 import { Pinecone } from '@pinecone-database/pinecone';
+import { AssistantHostSingleton } from '@pinecone-database/pinecone/dist/assistant/assistantHostSingleton';
+import { X_PINECONE_API_VERSION } from '@pinecone-database/pinecone/dist/pinecone-generated-ts-fetch/assistant_data';
+import { buildUserAgent } from '@pinecone-database/pinecone/dist/utils';
+import { AppError, UpstreamError } from '@/lib/errors';
 
 if (!process.env.PINECONE_API_KEY) {
-  throw new Error('PINECONE_API_KEY environment variable is not set');
+  throw new AppError('internal', 'PINECONE_API_KEY environment variable is not set');
 }
 
 const pinecone = new Pinecone({
   apiKey: process.env.PINECONE_API_KEY,
+  // Next.js stores GET fetches in its data cache, which would keep serving
+  // stale file lists and assistant details
+  fetchApi: (input, init) => fetch(input, { ...init, cache: 'no-store' }),
 });
 
 export function getAssistant(assistantName: string) {
@@ -15,3 +22,31 @@ export function getAssistant(assistantName: string) {
   return pinecone.Assistant(assistantName);
 }
 
+// Calls an assistant data plane endpoint directly, for request fields the SDK
+// drops (it never sends `temperature` to chat). Sends what the SDK would: the
+// host, API version and User-Agent all come from it. Throws UpstreamError when
+// the response isn't OK.
+export async function fetchAssistant(
+  assistantName: string,
+  path: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const config = pinecone.getConfig();
+  const host = await AssistantHostSingleton.getHostUrl(config, assistantName);
+  const response = await fetch(`${host}${path}`, {
+    method: 'POST',
+    headers: {
+      'Api-Key': config.apiKey,
+      'Content-Type': 'application/json',
+      'User-Agent': buildUserAgent(config),
+      'X-Pinecone-Api-Version': X_PINECONE_API_VERSION,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new UpstreamError(response, await response.text().catch(() => ''));
+  }
+  return response;
+}
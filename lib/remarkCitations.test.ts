@@ -0,0 +1,152 @@
+import type { Root } from 'mdast';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+import type { Node } from 'unist';
+import { describe, expect, it } from 'vitest';
+import { isParent } from '@/lib/markdown';
+import { CITATION_INDEX_ATTRIBUTE, getSafeCitationOffsets, remarkCitations } from '@/lib/remarkCitations';
+
+type PlacedCitation = { index: number; ancestors: string[]; before: string; after: string };
+
+// Runs the plugin and reports, for each citation node, the types of the nodes
+// around it and the text directly before and after it in its parent
+function cite(markdown: string, positions: number[]): PlacedCitation[] {
+  const processor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath, { singleDollarTextMath: false });
+  const tree = processor.parse(markdown) as Root;
+  remarkCitations({ positions })(tree, { value: markdown });
+
+  const placed: PlacedCitation[] = [];
+  const text = (node: Node | undefined) => (node && 'value' in node ? String(node.value) : '');
+  const visit = (node: Node, ancestors: string[]) => {
+    if (!isParent(node)) return;
+    node.children.forEach((child, i) => {
+      if (child.type === 'citation') {
+        const properties = (child.data as any).hProperties;
+        placed.push({
+          index: properties[CITATION_INDEX_ATTRIBUTE],
+          ancestors: [...ancestors, node.type],
+          before: text(node.children[i - 1]),
+          after: text(node.children[i + 1]),
+        });
+      }
+      visit(child, [...ancestors, node.type]);
+    });
+  };
+  visit(tree, []);
+  return placed.sort((a, b) => a.index - b.index);
+}
+
+const UNSAFE_ANCESTORS = ['code', 'inlineCode', 'math', 'inlineMath', 'link'];
+
+describe('remarkCitations', () => {
+  it('splits plain text at the citation position', () => {
+    const markdown = 'The sky is blue. Grass is green.';
+    expect(cite(markdown, [16])).toEqual([
+      { index: 0, ancestors: ['root', 'paragraph'], before: 'The sky is blue.', after: ' Grass is green.' },
+    ]);
+  });
+
+  it('keeps citations that share a position in citation order', () => {
+    const citations = cite('First. Second.', [6, 6]);
+    expect(citations.map(({ index, before }) => [index, before])).toEqual([
+      [0, 'First.'],
+      [1, ''],
+    ]);
+  });
+
+  it('moves a citation out of a fenced code block', () => {
+    const markdown = 'Install it:\n\n```sh\nnpm install\n```\n\nThen run it.';
+    const inside = markdown.indexOf('install');
+    const [citation] = cite(markdown, [inside]);
+    expect(citation.ancestors).toEqual(['root', 'paragraph']);
+    expect(citation.before).toBe('Install it:');
+  });
+
+  it('moves a citation to the edge of inline code', () => {
+    const markdown = 'Run `npm install` first.';
+    const [citation] = cite(markdown, [markdown.indexOf('install')]);
+    expect(citation.ancestors).toEqual(['root', 'paragraph']);
+    expect(citation.before).toBe('Run ');
+  });
+
+  it('lists citations at the end when there is no inline content', () => {
+    const markdown = '```\ncode only\n```';
+    expect(cite(markdown, [6])).toEqual([
+      { index: 0, ancestors: ['root', 'paragraph'], before: '', after: '' },
+    ]);
+  });
+
+  it('places citations inside table cells', () => {
+    const markdown = '| Name | Color |\n| --- | --- |\n| Sky | blue |';
+    const [cell, pipe] = cite(markdown, [markdown.indexOf('blue') + 4, markdown.lastIndexOf('|')]);
+    expect(cell.ancestors).toEqual(['root', 'table', 'tableRow', 'tableCell']);
+    expect(cell.before).toBe('blue');
+    // A pipe isn't inside any cell, so the nearest cell boundary is used
+    expect(pipe.ancestors).toEqual(['root', 'table', 'tableRow', 'tableCell']);
+  });
+
+  it('places citations inside list items', () => {
+    const markdown = '- First item\n- Second item';
+    const [end, marker] = cite(markdown, [markdown.indexOf('First') + 5, markdown.indexOf('- Second')]);
+    expect(end.ancestors).toEqual(['root', 'list', 'listItem', 'paragraph']);
+    expect(end.before).toBe('First');
+    expect(end.after).toBe(' item');
+    expect(marker.ancestors).toEqual(['root', 'list', 'listItem', 'paragraph']);
+  });
+
+  it('never places a citation inside math', () => {
+    const markdown = 'Energy is $$E = mc^2$$ here.\n\n$$\n\\int_0^1 x\\,dx\n$$\n\nDone.';
+    const positions = [markdown.indexOf('mc^2'), markdown.indexOf('\\int')];
+    const citations = cite(markdown, positions);
+    expect(citations).toHaveLength(2);
+    citations.forEach((citation) => {
+      UNSAFE_ANCESTORS.forEach((type) => expect(citation.ancestors).not.toContain(type));
+    });
+    expect(citations[0].before).toBe('Energy is ');
+  });
+});
+
+describe('getSafeCitationOffsets', () => {
+  it('returns positions in plain text unchanged', () => {
+    expect(getSafeCitationOffsets('The sky is blue.', [3, 16])).toEqual([3, 16]);
+  });
+
+  it('returns nothing for no positions', () => {
+    expect(getSafeCitationOffsets('Anything', [])).toEqual([]);
+  });
+
+  it('moves offsets out of code blocks', () => {
+    const markdown = 'Intro.\n\n```js\nconst a = 1;\n```\n\nOutro.';
+    const [offset] = getSafeCitationOffsets(markdown, [markdown.indexOf('const') + 2]);
+    expect(offset).toBe('Intro.'.length);
+  });
+
+  it('moves offsets to the nearer edge of inline math', () => {
+    const markdown = 'Area is $$\\pi r^2$$ exactly.';
+    const start = markdown.indexOf('$$');
+    const end = markdown.lastIndexOf('$$') + 2;
+    expect(getSafeCitationOffsets(markdown, [start + 2, end - 2])).toEqual([start, end]);
+  });
+
+  it('moves offsets out of block math', () => {
+    const markdown = 'Given:\n\n$$\nx^2 + y^2\n$$';
+    expect(getSafeCitationOffsets(markdown, [markdown.indexOf('y^2')])).toEqual(['Given:'.length]);
+  });
+
+  it('keeps offsets within table cells and list items', () => {
+    const table = '| a | b |\n| - | - |\n| one | two |';
+    expect(getSafeCitationOffsets(table, [table.indexOf('two') + 3])).toEqual([table.indexOf('two') + 3]);
+
+    const list = '1. Alpha\n2. Beta';
+    expect(getSafeCitationOffsets(list, [list.indexOf('Beta') + 2])).toEqual([list.indexOf('Beta') + 2]);
+  });
+
+  it('returns null when the message has no inline content', () => {
+    expect(getSafeCitationOffsets('```\nonly code\n```', [5])).toEqual([null]);
+  });
+});
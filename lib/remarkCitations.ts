@@ -0,0 +1,173 @@
+import type { Root } from 'mdast';
+import type { Literal, Node, Parent } from 'unist';
+import { isParent, parseMarkdown, sliceTextNode } from '@/lib/markdown';
+
+// Element name citation nodes render as; map it to a component in ReactMarkdown
+export const CITATION_ELEMENT = 'citation';
+
+// Attribute carrying the citation's index in getOrderedCitations order
+export const CITATION_INDEX_ATTRIBUTE = 'data-citation-index';
+
+// Constructs a citation must not be placed inside: it would be rendered as
+// code or math, nest a link in a link, or end up in raw HTML
+const UNSAFE_TYPES = new Set([
+  'code',
+  'inlineCode',
+  'math',
+  'inlineMath',
+  'link',
+  'linkReference',
+  'image',
+  'imageReference',
+  'html',
+  'definition',
+  'footnoteDefinition',
+  'footnoteReference',
+]);
+
+// Block-level nodes holding inline content. Citations are inserted between
+// their children, or inside a text child by splitting it.
+const PHRASING_PARENTS = new Set(['paragraph', 'heading', 'tableCell']);
+
+// Inserting before `before`, or at the end of `parent` when it's null
+type Slot = { parent: Parent; before: Node | null; offset: number };
+
+type TextTarget = { parent: Parent; node: Literal<string>; start: number; end: number; splittable: boolean };
+
+type Placement =
+  | { kind: 'slot'; slot: Slot; offset: number }
+  | { kind: 'split'; target: TextTarget; offset: number };
+
+// Finds everywhere in the tree a citation could go, with its offset in `source`
+function collectTargets(tree: Root, source: string) {
+  const slots: Slot[] = [];
+  const texts: TextTarget[] = [];
+
+  const visit = (node: Node, parent: Parent | null) => {
+    if (UNSAFE_TYPES.has(node.type)) return;
+
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (node.type === 'text' && parent && start !== undefined && end !== undefined) {
+      const { value } = node as Literal<string>;
+      // Escapes and entities make the value differ from the source; such
+      // text is only cited at its edges
+      texts.push({ parent, node: node as Literal<string>, start, end, splittable: value === source.slice(start, end) });
+    }
+
+    if (!isParent(node)) return;
+
+    if (PHRASING_PARENTS.has(node.type)) {
+      node.children.forEach((child) => {
+        const offset = child.position?.start.offset;
+        if (offset !== undefined) slots.push({ parent: node, before: child, offset });
+      });
+      const last = node.children[node.children.length - 1];
+      const offset = last?.position?.end.offset;
+      if (offset !== undefined) slots.push({ parent: node, before: null, offset });
+    }
+
+    node.children.forEach((child) => visit(child, node));
+  };
+
+  visit(tree, null);
+  return { slots, texts };
+}
+
+// The nearest safe place to a character offset: inside plain text where
+// possible, otherwise the closest boundary between inline nodes. Ties go to
+// the earlier boundary, since citations follow what they cite.
+function place(position: number, slots: Slot[], texts: TextTarget[]): Placement | null {
+  const target = texts.find((text) => text.splittable && text.start < position && position < text.end);
+  if (target) {
+    return { kind: 'split', target, offset: position };
+  }
+
+  // Slots are in document order, so keeping the first of equals picks the earlier
+  let best: Slot | null = null;
+  for (const slot of slots) {
+    if (!best || Math.abs(slot.offset - position) < Math.abs(best.offset - position)) {
+      best = slot;
+    }
+  }
+  return best && { kind: 'slot', slot: best, offset: best.offset };
+}
+
+function placeAll(tree: Root, source: string, positions: number[]) {
+  const { slots, texts } = collectTargets(tree, source);
+  return positions.map((position) => place(position, slots, texts));
+}
+
+function createCitationNode(index: number): Node {
+  return {
+    type: 'citation',
+    data: {
+      hName: CITATION_ELEMENT,
+      hProperties: { [CITATION_INDEX_ATTRIBUTE]: index },
+    },
+  } as Node;
+}
+
+export type RemarkCitationsOptions = {
+  positions: number[]; // Citation offsets in the markdown source, in citation order
+};
+
+// Remark plugin adding a citation node for each position at the nearest
+// place it can render safely. The nodes render as <citation> elements.
+export function remarkCitations({ positions }: RemarkCitationsOptions) {
+  return (tree: Root, file: { value: unknown }) => {
+    if (positions.length === 0) return;
+
+    const placements = placeAll(tree, String(file.value), positions);
+
+    // Slots refer to the node they precede, so insert them before any text
+    // node is split and replaced. Going in index order keeps citations that
+    // share a slot in order.
+    placements.forEach((placement, index) => {
+      if (placement?.kind !== 'slot') return;
+      const { parent, before } = placement.slot;
+      const at = before ? parent.children.indexOf(before) : parent.children.length;
+      parent.children.splice(at, 0, createCitationNode(index));
+    });
+
+    const splits = new Map<TextTarget, { offset: number; index: number }[]>();
+    placements.forEach((placement, index) => {
+      if (placement?.kind !== 'split') return;
+      const entries = splits.get(placement.target) ?? [];
+      entries.push({ offset: placement.offset, index });
+      splits.set(placement.target, entries);
+    });
+
+    splits.forEach((entries, { parent, node, start, end }) => {
+      const replacement: Node[] = [];
+      let cursor = start;
+      entries
+        .sort((a, b) => a.offset - b.offset || a.index - b.index)
+        .forEach(({ offset, index }) => {
+          if (offset > cursor) replacement.push(sliceTextNode(node, cursor, offset));
+          replacement.push(createCitationNode(index));
+          cursor = offset;
+        });
+      replacement.push(sliceTextNode(node, cursor, end));
+      parent.children.splice(parent.children.indexOf(node), 1, ...replacement);
+    });
+
+    // With no inline content at all (e.g. only a code block), list the
+    // citations in a paragraph of their own at the end
+    const unplaced = placements.flatMap((placement, index) => (placement ? [] : [index]));
+    if (unplaced.length > 0) {
+      (tree as Parent).children.push({
+        type: 'paragraph',
+        children: unplaced.map(createCitationNode),
+      } as Parent);
+    }
+  };
+}
+
+// Offsets in `markdown` where raw citation markers can be inserted without
+// breaking the surrounding syntax, one per position. Positions with no safe
+// place get null, like the citations the plugin lists at the end.
+export function getSafeCitationOffsets(markdown: string, positions: number[]): (number | null)[] {
+  if (positions.length === 0) return [];
+  return placeAll(parseMarkdown(markdown), markdown, positions).map((placement) => placement?.offset ?? null);
+}
@@ -0,0 +1,74 @@
+import { isTransientErrorCode } from '@/lib/errorCodes';
+import { toAppError } from '@/lib/errors';
+
+export type RetryOptions = {
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Cap on any one wait, including a Retry-After
+  signal?: AbortSignal; // Stops waiting and gives up when aborted
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+const DEFAULT_RETRY_OPTIONS = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+export function isTransientError(error: unknown) {
+  return isTransientErrorCode(toAppError(error).code);
+}
+
+// Milliseconds asked for by a Retry-After header, in seconds or as a date.
+// Pinecone's errors don't always keep the response, so this is often null.
+export function getRetryAfterMs(error: any): number | null {
+  const headers = error?.response?.headers ?? error?.cause?.response?.headers ?? error?.headers;
+  const value: unknown = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs `fn`, retrying transient failures with jittered exponential backoff.
+// A Retry-After on the error is waited out instead, unless it is longer than
+// maxDelayMs, in which case the error is thrown rather than holding the request.
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const shouldRetry = options.shouldRetry ?? isTransientError;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || options.signal?.aborted || !shouldRetry(error)) throw error;
+
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== null && retryAfter > maxDelayMs) throw error;
+
+      // Full jitter: spreads out clients that failed at the same moment
+      const delay = retryAfter ?? Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay, options.signal);
+    }
+  }
+}
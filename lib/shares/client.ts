@@ -0,0 +1,91 @@
+import type { AssistantConversationShare } from '@/lib/types';
+
+// Revoke tokens for shares created in this browser, keyed by share id
+const REVOKE_TOKENS_STORAGE_KEY = 'pinecone-assistant:share-tokens';
+
+export class ShareRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ShareRequestError';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ShareRequestError(
+      errorData.error || `Share request failed: ${response.status}`,
+      response.status
+    );
+  }
+  return response.json();
+}
+
+function readRevokeTokens(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(REVOKE_TOKENS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeRevokeTokens(tokens: Record<string, string>) {
+  window.localStorage.setItem(REVOKE_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+}
+
+export function getRevokeToken(shareId: string): string | null {
+  return readRevokeTokens()[shareId] ?? null;
+}
+
+export function getShareUrl(shareId: string) {
+  return `${window.location.origin}/share/${encodeURIComponent(shareId)}`;
+}
+
+// Shares the branch ending at `leafId` of a conversation saved on the server
+export async function createShare(input: {
+  conversationId: string;
+  leafId: string | null;
+  title: string;
+  expiresInDays: number | null;
+}) {
+  const { share, revoke_token } = await request<{
+    share: AssistantConversationShare;
+    revoke_token: string;
+  }>('/api/shares', {
+    method: 'POST',
+    body: JSON.stringify({
+      conversation_id: input.conversationId,
+      leaf_id: input.leafId,
+      title: input.title,
+      expires_in_days: input.expiresInDays ?? undefined,
+    }),
+  });
+  writeRevokeTokens({ ...readRevokeTokens(), [share.id]: revoke_token });
+  return share;
+}
+
+export async function fetchShare(shareId: string) {
+  const { share } = await request<{ share: AssistantConversationShare }>(
+    `/api/shares/${encodeURIComponent(shareId)}`
+  );
+  return share;
+}
+
+export async function revokeShare(shareId: string) {
+  const token = getRevokeToken(shareId);
+  if (!token) {
+    throw new Error('This link was not created in this browser');
+  }
+
+  await request<{ revoked: true }>(`/api/shares/${encodeURIComponent(shareId)}`, {
+    method: 'DELETE',
+    headers: { 'X-Revoke-Token': token },
+  });
+
+  const { [shareId]: _revoked, ...tokens } = readRevokeTokens();
+  writeRevokeTokens(tokens);
+}
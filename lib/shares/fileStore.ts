@@ -0,0 +1,44 @@
+import path from 'path';
+import { readJsonFile, writeJsonFile } from '@/lib/fileStore';
+import {
+  createShare,
+  isValidShareId,
+  revokeShare,
+  type ShareInput,
+  type ShareStore,
+  type StoredShare,
+} from './store';
+
+// Stores each share as a JSON file in a local directory
+export class FileShareStore implements ShareStore {
+  constructor(private readonly directory: string) {}
+
+  async create(input: ShareInput) {
+    const created = createShare(input);
+    await this.write(created.share);
+    return created;
+  }
+
+  async get(id: string) {
+    if (!isValidShareId(id)) return null;
+    return readJsonFile<StoredShare>(this.filePath(id));
+  }
+
+  async revoke(id: string) {
+    const share = await this.get(id);
+    if (!share) return null;
+
+    // Revoking twice writes the same file, so no per-share lock is needed
+    const revoked = revokeShare(share);
+    await this.write(revoked);
+    return revoked;
+  }
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private write(share: StoredShare) {
+    return writeJsonFile(this.filePath(share.id), share);
+  }
+}
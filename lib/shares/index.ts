@@ -0,0 +1,36 @@
+import { AppError } from '@/lib/errors';
+import { FileShareStore } from './fileStore';
+import { MemoryShareStore } from './memoryStore';
+import type { ShareStore } from './store';
+
+export type { ShareStore, StoredShare } from './store';
+export { getShareStatus, isValidShareId, toPublicShare, verifyRevokeToken } from './store';
+
+let store: ShareStore | null = null;
+
+// Links must outlive the server instance that created them, which the memory
+// store doesn't (on Vercel, instances come and go). So sharing is off unless
+// SHARE_STORE_PATH points at durable storage. Shares are taken from
+// conversations saved on the server, so those must be too.
+export function isSharingEnabled() {
+  return process.env.CONVERSATION_STORE !== 'memory'
+    && !!process.env.SHARE_STORE_PATH
+    && process.env.NEXT_PUBLIC_CONVERSATION_STORAGE === 'server';
+}
+
+// Server-side share store. Follows CONVERSATION_STORE so shares live alongside
+// conversations; files go to SHARE_STORE_PATH.
+export function getShareStore(): ShareStore {
+  if (!store) {
+    if (process.env.CONVERSATION_STORE === 'memory') {
+      store = new MemoryShareStore();
+    } else {
+      const directory = process.env.SHARE_STORE_PATH;
+      if (!directory) {
+        throw new AppError('internal', 'SHARE_STORE_PATH environment variable is not set');
+      }
+      store = new FileShareStore(directory);
+    }
+  }
+  return store;
+}
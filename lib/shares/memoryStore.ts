@@ -0,0 +1,26 @@
+import { createShare, revokeShare, type ShareInput, type ShareStore, type StoredShare } from './store';
+
+// Keeps shares in memory, like MemoryConversationStore. isSharingEnabled
+// treats it as not durable.
+export class MemoryShareStore implements ShareStore {
+  private shares = new Map<string, StoredShare>();
+
+  async create(input: ShareInput) {
+    const created = createShare(input);
+    this.shares.set(created.share.id, created.share);
+    return created;
+  }
+
+  async get(id: string) {
+    return this.shares.get(id) ?? null;
+  }
+
+  async revoke(id: string) {
+    const share = this.shares.get(id);
+    if (!share) return null;
+
+    const revoked = revokeShare(share);
+    this.shares.set(id, revoked);
+    return revoked;
+  }
+}
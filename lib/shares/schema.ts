@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { conversationMessageSchema } from '@/lib/conversations/schema';
+
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+
+const MAX_SHARE_MESSAGES = 500;
+const MAX_SHARE_MESSAGE_LENGTH = 100_000;
+
+// Shares are taken from a conversation stored on the server, so only the
+// browser that owns it can publish it
+export const shareCreateSchema = z.object({
+  conversation_id: z.string(),
+  // The last message of the branch to share; defaults to the one last shown
+  leaf_id: z.string().min(1).nullable().optional(),
+  // Defaults to the conversation's title
+  title: z.string().trim().max(200).default(''),
+  // Omitted for links that never expire
+  expires_in_days: z.number().int().min(1).max(MAX_SHARE_EXPIRY_DAYS).optional(),
+});
+
+// Caps what a share stores, since links can be created by anyone with a chat
+export const shareMessagesSchema = z.array(
+  conversationMessageSchema.extend({ content: z.string().max(MAX_SHARE_MESSAGE_LENGTH) })
+).min(1).max(MAX_SHARE_MESSAGES);
@@ -0,0 +1,78 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { AssistantChatMessage, AssistantConversationShare } from '@/lib/types';
+
+// Shares are stored with a hash of their revoke token, which is only returned
+// to the creator. Revoked shares are kept so their links can report it.
+export type StoredShare = AssistantConversationShare & {
+  revoke_token_hash: string;
+  revoked_on: string | null;
+};
+
+export type ShareInput = {
+  title: string;
+  messages: AssistantChatMessage[];
+  expires_on: string | null;
+};
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+// Storage adapter for shared conversation snapshots. Snapshots are immutable
+// apart from being revoked.
+export interface ShareStore {
+  create(input: ShareInput): Promise<{ share: StoredShare; revokeToken: string }>;
+  get(id: string): Promise<StoredShare | null>;
+  revoke(id: string): Promise<StoredShare | null>;
+}
+
+// Share ids end up in file paths and URLs, so only allow a safe charset
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidShareId(id: unknown): id is string {
+  return typeof id === 'string' && SHARE_ID_PATTERN.test(id);
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest();
+}
+
+export function createShare(input: ShareInput): { share: StoredShare; revokeToken: string } {
+  const revokeToken = randomBytes(24).toString('base64url');
+  return {
+    share: {
+      id: randomBytes(12).toString('base64url'),
+      title: input.title,
+      messages: input.messages,
+      created_on: new Date().toISOString(),
+      expires_on: input.expires_on,
+      revoke_token_hash: hashToken(revokeToken).toString('hex'),
+      revoked_on: null,
+    },
+    revokeToken,
+  };
+}
+
+export function revokeShare(share: StoredShare): StoredShare {
+  return share.revoked_on ? share : { ...share, revoked_on: new Date().toISOString() };
+}
+
+export function verifyRevokeToken(share: StoredShare, token: string | null) {
+  if (!token) return false;
+  const expected = Buffer.from(share.revoke_token_hash, 'hex');
+  const actual = hashToken(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function getShareStatus(share: StoredShare, now = Date.now()): ShareStatus {
+  if (share.revoked_on) return 'revoked';
+  if (share.expires_on && Date.parse(share.expires_on) <= now) return 'expired';
+  return 'active';
+}
+
+// Strips the revocation fields before a share is sent to viewers
+export function toPublicShare({
+  revoke_token_hash: _hash,
+  revoked_on: _revokedOn,
+  ...share
+}: StoredShare): AssistantConversationShare {
+  return share;
+}
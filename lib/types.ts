@@ -1,3 +1,5 @@
+import type { AppErrorCode } from '@/lib/errorCodes';
+
 // Assistant File Types
 export enum AssistantFileStatus {
   AVAILABLE = 'Available',
@@ -19,6 +21,19 @@ export interface AssistantFile {
   error_message?: string | null; // From API response
 }
 
+// One page of GET /api/files. Listed files carry no signed_url; it is resolved
+// per file by GET /api/files/[fileId].
+export interface AssistantFilePage {
+  files: AssistantFile[];
+  next_cursor: string | null;
+  total: number; // Every file, whether or not it matches the filters
+  // Files in each status the Files panel filters by
+  status_counts: Record<
+    AssistantFileStatus.AVAILABLE | AssistantFileStatus.PROCESSING | AssistantFileStatus.PROCESSING_FAILED,
+    number
+  >;
+}
+
 // Chat Types
 export type AssistantChatMessageRole = 'assistant' | 'user' | 'error';
 
@@ -38,16 +53,31 @@ export type AssistantChatMessageCitation = {
   references: AssistantCitationReference[];
 };
 
+// Messages form a tree: editing or regenerating adds a sibling under the same
+// parent instead of replacing the original, so earlier branches are kept
 export type AssistantChatMessage = {
+  id: string;
+  parent_id: string | null;
   role: AssistantChatMessageRole;
   content: string;
   citations?: AssistantChatMessageCitation[];
+  stopped?: boolean; // Generation was stopped by the user before it finished
+  interrupted?: boolean; // An error cut the answer off before it finished
+};
+
+// Restricts which documents the assistant can draw on. Both parts apply when set.
+export type AssistantChatScope = {
+  files: Pick<AssistantFile, 'id' | 'name'>[]; // Picked in the Files panel
+  filter: Record<string, unknown> | null; // Metadata filter expression
 };
 
 export type AssistantChatSession = {
-  messages: AssistantChatMessage[];
+  messages: AssistantChatMessage[]; // Every message across all branches
+  currentLeafId: string | null; // Last message of the branch being shown
   loading: boolean;
   error?: string | null;
+  errorCode?: AppErrorCode | null; // Kind of error, when the server said
+  errorRetryable?: boolean; // Asking again may work: the error was transient or the stream broke off
 };
 
 // Streaming Event Types
@@ -83,6 +113,7 @@ export type AssistantChatMessageEnd = {
 export type AssistantChatError = {
   type: 'error';
   message: string;
+  code?: AppErrorCode;
 };
 
 export type AssistantChatMessageResponse =
@@ -92,3 +123,46 @@ export type AssistantChatMessageResponse =
   | AssistantChatMessageEnd
   | AssistantChatError;
 
+// Body of POST /api/chat when a single JSON response is requested
+export type AssistantChatResponse = {
+  id: string | null;
+  model: string | null;
+  content: string;
+  citations: AssistantChatMessageCitation[]; // Ordered by position
+  finish_reason: string | null; // Null if the stream ended without message_end
+  usage: AssistantChatMessageEnd['usage'] | null;
+};
+
+
+// Conversation Types
+export type AssistantConversation = {
+  id: string;
+  title: string; // Empty until the first question, then taken from it
+  pinned: boolean;
+  messages: AssistantChatMessage[];
+  current_leaf_id: string | null;
+  scope?: AssistantChatScope | null; // Missing for conversations saved before scoping
+  created_on: string;
+  updated_on: string;
+};
+
+export type AssistantConversationSummary = Omit<
+  AssistantConversation,
+  'messages' | 'current_leaf_id' | 'scope'
+> & {
+  message_count: number;
+};
+
+export type AssistantConversationUpdate = Partial<
+  Pick<AssistantConversation, 'title' | 'pinned' | 'current_leaf_id' | 'scope'>
+>;
+
+// Share Types
+// Read-only snapshot of one conversation branch, published at /share/[id]
+export type AssistantConversationShare = {
+  id: string;
+  title: string;
+  messages: AssistantChatMessage[]; // The shared branch, from the first question to its leaf
+  created_on: string;
+  expires_on: string | null;
+};
@@ -0,0 +1,17 @@
+// Helpers for keeping client state in the URL query without triggering navigation
+
+export function getSearchParam(name: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+export function setSearchParam(name: string, value: string | null) {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  if (value === null || value === '') {
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
+  }
+  window.history.replaceState(window.history.state, '', url);
+}